@@ -1,47 +1,161 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Controls } from './components/Controls';
 import { VesselPreview } from './components/VesselPreview';
 import { CodeDisplay } from './components/CodeDisplay';
 import { SimulationWindow } from './components/SimulationWindow';
-import { VesselParams, GeneratedScript, TextureData } from './types';
+import { VesselParams, GeneratedScript, TextureData, PrinterProfile, Toolpath, ToolpathSource, AnalysisMode } from './types';
 import { generateProcessingCode } from './services/gemini';
 import { AlertCircle, CheckCircle } from 'lucide-react';
 import { processImageForGeometry } from './utils/imageHelper';
+import {
+  BUILTIN_PRINTER_PROFILES, loadUserPrinterProfiles, saveUserPrinterProfiles, resolvePrinterProfile
+} from './utils/printerProfiles';
+import { DesignAnalysis } from './utils/geometryJobs';
+import { requestGeometry, isCancelledJob } from './services/geometry';
+import { readDesignFrom3MF } from './utils/designFile';
+import { greenParams } from './utils/shrinkage';
+import { INITIAL_PARAMS } from './utils/defaults';
+import {
+  PROJECT_EXTENSION, parseProject, serializeProject, loadAutosave, saveAutosave, mergeProjectProfile
+} from './utils/project';
+import { downloadFile } from './utils/exporters';
+import { createShareLink, readShareLink } from './utils/shareLink';
+import { DesignHistory, createHistory, recordParams, currentEntry, undo, redo } from './utils/history';
 
-const INITIAL_PARAMS: VesselParams = {
-  height: 150,
-  baseRadius: 40,
-  noiseScale: 10,
-  noiseFrequency: 5,
-  layers: 150,
-  twist: 1,
-  segments: 120,
-  wallThickness: 2,
-  exportFormat: 'obj',
-  printerType: 'marlin',
-  nozzleDiameter: 1.2,
-  filamentDiameter: 1.75,
-  printSpeed: 1200,
-  textureImage: null,
-  textureInfluence: 10,
+// Wait this long after the last change before autosaving (ms)
+const AUTOSAVE_DELAY = 1000;
+
+// Inputs whose own undo Ctrl+Z should reach instead of the design history
+const keepsOwnUndo = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type);
 };
 
 function App() {
-  const [params, setParams] = useState<VesselParams>(INITIAL_PARAMS);
-  const [generatedScript, setGeneratedScript] = useState<GeneratedScript | null>(null);
+  // The last session's project, restored from local storage along with the user's printer profiles
+  const [restored] = useState(() => {
+    const profiles = loadUserPrinterProfiles();
+    const autosaved = loadAutosave();
+    return autosaved
+      ? { ...mergeProjectProfile(profiles, autosaved), generatedScript: autosaved.generatedScript }
+      : { profiles, params: INITIAL_PARAMS, generatedScript: null };
+  });
+  const [params, setParams] = useState<VesselParams>(restored.params);
+  const [generatedScript, setGeneratedScript] = useState<GeneratedScript | null>(restored.generatedScript);
+
+  // Undo history: every params change is recorded, slider drags as one step
+  const [history, setHistory] = useState<DesignHistory>(() => createHistory(params));
+  useEffect(() => {
+    setHistory(h => recordParams(h, params));
+  }, [params]);
+
+  // Moving through the history restores that step's params without recording a new one
+  const handleHistoryChange = (next: DesignHistory) => {
+    setHistory(next);
+    setParams(currentEntry(next).params);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || keepsOwnUndo(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleHistoryChange(undo(history));
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleHistoryChange(redo(history));
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
+  // Printer Profiles (built-ins + user profiles persisted in local storage)
+  const [userPrinterProfiles, setUserPrinterProfiles] = useState<PrinterProfile[]>(restored.profiles);
+  const printerProfiles = useMemo(
+    () => [...BUILTIN_PRINTER_PROFILES, ...userPrinterProfiles],
+    [userPrinterProfiles]
+  );
+  const printer = resolvePrinterProfile(printerProfiles, params.printerProfileId);
+
+  useEffect(() => {
+    saveUserPrinterProfiles(userPrinterProfiles);
+  }, [userPrinterProfiles]);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => saveAutosave({ params, generatedScript, printerProfile: printer }),
+      AUTOSAVE_DELAY
+    );
+    return () => clearTimeout(timer);
+  }, [params, generatedScript, printer]);
+
   // Texture Data State
   const [textureData, setTextureData] = useState<TextureData | null>(null);
 
   // Simulation State
   const [isSimulating, setIsSimulating] = useState(false);
   const [simProgress, setSimProgress] = useState(1); // 0 to 1
-  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('none');
   const [isSimWindowOpen, setIsSimWindowOpen] = useState(false);
 
+  // Toolpath Viewer: generated G-code follows the current design, imported files are fixed
+  const [toolpathSource, setToolpathSource] = useState<ToolpathSource | null>(null);
+
+  // The piece as printed: scaled up for shrinkage when designing for fired size
+  const printParams = useMemo(() => greenParams(params), [params]);
+
+  // Our own G-code as a toolpath, needed by the viewer and the simulator
+  const needsGenerated = toolpathSource?.kind === 'generated' || isSimWindowOpen;
+  const [generatedToolpath, setGeneratedToolpath] = useState<Toolpath | null>(null);
+  useEffect(() => {
+    if (!needsGenerated) {
+      setGeneratedToolpath(null);
+      return;
+    }
+    requestGeometry('toolpath', { params, printer, textureData }, { channel: 'toolpath' })
+      .then(setGeneratedToolpath)
+      .catch(err => {
+        if (!isCancelledJob(err)) console.error('Toolpath generation failed', err);
+      });
+  }, [needsGenerated, params, printer, textureData]);
+  const toolpath = toolpathSource?.kind === 'file' ? toolpathSource.toolpath : toolpathSource ? generatedToolpath : null;
+  const toolpathLabel = toolpathSource?.kind === 'file' ? toolpathSource.name : `generated (${printer.name})`;
+
+  // Print stats, stability and overhang drive the analysis panel and heatmaps.
+  // They come from the geometry worker; null until the first result arrives.
+  const [analysis, setAnalysis] = useState<DesignAnalysis | null>(null);
+  useEffect(() => {
+    requestGeometry('analysis', { params, printer, textureData }, { channel: 'analysis' })
+      .then(setAnalysis)
+      .catch(err => {
+        if (!isCancelledJob(err)) console.error('Design analysis failed', err);
+      });
+  }, [params, printer, textureData]);
+
+  // Designs shared as links open on load, and when a link is pasted into this tab
+  useEffect(() => {
+    const openSharedDesign = () => {
+      readShareLink(window.location.hash)
+        .then(design => {
+          if (!design) return;
+          setParams(design);
+          setSuccessMessage("Opened shared design.");
+          // Drop the fragment so a reload keeps later edits
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        })
+        .catch(err => setError(err instanceof Error ? err.message : "Failed to open design link."));
+    };
+    openSharedDesign();
+    window.addEventListener('hashchange', openSharedDesign);
+    return () => window.removeEventListener('hashchange', openSharedDesign);
+  }, []);
+
   // Effect to process image when params.textureImage changes
   useEffect(() => {
     if (params.textureImage) {
@@ -62,7 +176,7 @@ function App() {
     setSuccessMessage(null);
     
     try {
-      const script = await generateProcessingCode(params);
+      const script = await generateProcessingCode(params, printer);
       setGeneratedScript(script);
       setSuccessMessage("Processing script generated successfully! Ready for copy or export.");
     } catch (err) {
@@ -73,6 +187,50 @@ function App() {
     }
   };
 
+  const handleSaveProject = () => {
+    downloadFile(
+      serializeProject({ params, generatedScript, printerProfile: printer }),
+      `vessel${PROJECT_EXTENSION}`,
+      'application/json'
+    );
+  };
+
+  const handleCopyLink = async (includeImage: boolean) => {
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const link = await createShareLink(params, window.location.href, includeImage);
+      await navigator.clipboard.writeText(link);
+      setSuccessMessage(`Design link copied (${link.length.toLocaleString()} characters).`);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to copy the design link.");
+    }
+  };
+
+  // Opens a project file, or the design embedded in one of our 3MF exports
+  const handleOpenDesign = async (file: File) => {
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      if (file.name.toLowerCase().endsWith('.3mf')) {
+        setParams(await readDesignFrom3MF(await file.arrayBuffer()));
+      } else {
+        const project = parseProject(await file.text());
+        const merged = mergeProjectProfile(userPrinterProfiles, project);
+        setUserPrinterProfiles(merged.profiles);
+        setParams(merged.params);
+        setGeneratedScript(project.generatedScript);
+      }
+      setSuccessMessage(`Opened design from ${file.name}.`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to open design file.");
+    }
+  };
+
   return (
     <div className="flex h-screen w-screen bg-black overflow-hidden relative">
       {/* Sidebar Controls */}
@@ -84,6 +242,8 @@ function App() {
           isGenerating={isGenerating}
           isSimulating={isSimulating}
           setIsSimulating={(v) => {
+             // Playing from the end starts over
+             if (v && simProgress >= 1) setSimProgress(0);
              setIsSimulating(v);
              if(v) setIsSimWindowOpen(true);
           }}
@@ -92,9 +252,24 @@ function App() {
             setSimProgress(v);
             if (v < 1) setIsSimWindowOpen(true);
           }}
-          showAnalysis={showAnalysis}
-          setShowAnalysis={setShowAnalysis}
+          analysisMode={analysisMode}
+          setAnalysisMode={setAnalysisMode}
+          analysis={analysis}
           textureData={textureData}
+          printer={printer}
+          printerProfiles={printerProfiles}
+          onPrinterProfilesChange={(profiles) => setUserPrinterProfiles(profiles.filter(p => !p.builtIn))}
+          toolpathSource={toolpathSource}
+          onToolpathSourceChange={setToolpathSource}
+          onOpenDesign={handleOpenDesign}
+          onSaveProject={handleSaveProject}
+          onCopyLink={handleCopyLink}
+          onError={(message) => {
+            setSuccessMessage(null);
+            setError(message);
+          }}
+          history={history}
+          onHistoryChange={handleHistoryChange}
         />
       </div>
 
@@ -125,9 +300,14 @@ function App() {
           <div className="h-full min-h-[400px] flex flex-col">
              <VesselPreview 
                 params={params} 
-                simProgress={1} // Main view always shows completed vessel
-                showAnalysis={showAnalysis}
+                analysisMode={analysisMode}
+                layerTimes={analysis?.stats.layerTimes}
+                layerRisk={analysis?.stability.layerRisk}
+                overhang={analysis?.overhang}
+                meshFlags={analysis?.validation.flags}
                 textureData={textureData}
+                toolpath={toolpath}
+                toolpathLabel={toolpathLabel}
              />
           </div>
 
@@ -146,9 +326,13 @@ function App() {
             setIsSimWindowOpen(false);
             setIsSimulating(false);
         }}
-        params={params}
+        params={printParams}
+        printer={printer}
+        toolpath={generatedToolpath}
         simProgress={simProgress}
-        textureData={textureData}
+        setSimProgress={setSimProgress}
+        isSimulating={isSimulating}
+        setIsSimulating={setIsSimulating}
       />
     </div>
   );
@@ -0,0 +1,68 @@
+import React from 'react';
+import { VesselParams } from '../types';
+import { CompactSlider } from './ModifierStack';
+import {
+  CLAY_MATERIALS, CUSTOM_MATERIAL_ID, resolveMaterial, updateMaterial, recommendedLayers, totalShrinkage
+} from '../utils/materials';
+import { greenParams } from '../utils/shrinkage';
+import { MATERIAL_FIELD_SPECS, PARAM_LIMITS, clampToLimit } from '../utils/paramLimits';
+
+interface ClayMaterialPanelProps {
+  params: VesselParams;
+  onChange: (patch: Partial<VesselParams>) => void;
+}
+
+export const ClayMaterialPanel: React.FC<ClayMaterialPanelProps> = ({ params, onChange }) => {
+  const material = resolveMaterial(params);
+  const suggestedLayers = clampToLimit(
+    recommendedLayers(material, greenParams(params).height, params.nozzleDiameter),
+    PARAM_LIMITS.layers,
+    params.layers
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <label className="text-xs text-zinc-400 block">Material</label>
+        <select
+          value={params.materialId}
+          onChange={(e) => onChange({ materialId: e.target.value })}
+          className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600"
+        >
+          {CLAY_MATERIALS.map((m) => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+          <option value={CUSTOM_MATERIAL_ID}>{params.customMaterial.name}</option>
+        </select>
+      </div>
+
+      {MATERIAL_FIELD_SPECS.map((spec) => (
+        <CompactSlider
+          key={spec.key}
+          label={spec.label}
+          value={material[spec.key]}
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          unit={spec.unit}
+          onChange={(value) => onChange(updateMaterial(params, { [spec.key]: value }))}
+        />
+      ))}
+
+      <div className="p-2 rounded bg-zinc-900 border border-zinc-800 space-y-1">
+        <p className="text-[10px] text-zinc-400 leading-tight">
+          Shrinks {(totalShrinkage(material) * 100).toFixed(1)}% wet to fired.
+          Recommended layer height {(params.nozzleDiameter * material.layerHeightRatio).toFixed(2)}mm ({suggestedLayers} layers).
+        </p>
+        {suggestedLayers !== params.layers && (
+          <button
+            onClick={() => onChange({ layers: suggestedLayers })}
+            className="text-[10px] text-clay-400 hover:text-clay-300 transition-colors"
+          >
+            Apply {suggestedLayers} layers
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
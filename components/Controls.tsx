@@ -1,9 +1,25 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { VesselParams, ExportFormat, PrinterType, PrintStats, TextureData } from '../types';
-import { Sliders, Activity, Cylinder, Layers, RotateCw, Download, FileDown, BoxSelect, Settings, ChevronDown, ChevronUp, Play, Pause, BarChart3, AlertTriangle, Eye, Image as ImageIcon, Camera, Upload, X } from 'lucide-react';
-import { exportByType } from '../utils/exporters';
-import { calculatePrintStats } from '../utils/geometry';
+import { VesselParams, ExportFormat, TextureData, GcodeMode, SeamPlacement, FloorPattern, PrinterProfile, ToolpathSource, AnalysisMode, LayerTimeMode } from '../types';
+import { Sliders, Activity, Cylinder, Layers, Download, FileDown, BoxSelect, Settings, ChevronDown, ChevronUp, Play, Pause, BarChart3, AlertTriangle, Eye, Image as ImageIcon, Camera, Upload, X, Route, Save, Link, FlaskConical } from 'lucide-react';
+import { exportByType } from '../services/geometry';
+import { getPerimeterLayout } from '../utils/geometry';
+import { getFastLayers } from '../utils/printTime';
+import { DesignAnalysis } from '../utils/geometryJobs';
+import { resolveMaterial, updateMaterial } from '../utils/materials';
+import { shrinkageFactors } from '../utils/shrinkage';
+import { PROJECT_EXTENSION } from '../utils/project';
+import { PARAM_LIMITS, ParamLimit, MAX_OVERHANG_SPEC } from '../utils/paramLimits';
+import { DesignHistory } from '../utils/history';
+import { parseGCODE } from '../utils/gcodeParser';
 import { resizeImage } from '../utils/imageHelper';
+import { ProfileEditor } from './ProfileEditor';
+import { ModifierStack } from './ModifierStack';
+import { CrossSectionEditor } from './CrossSectionEditor';
+import { PrinterProfileEditor } from './PrinterProfileEditor';
+import { LayerTimeChart } from './LayerTimeChart';
+import { ClayMaterialPanel } from './ClayMaterialPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { CompactSlider } from './ModifierStack';
 
 interface ControlsProps {
   params: VesselParams;
@@ -15,51 +31,91 @@ interface ControlsProps {
   setIsSimulating: (v: boolean) => void;
   simProgress: number;
   setSimProgress: (v: number) => void;
-  showAnalysis: boolean;
-  setShowAnalysis: (v: boolean) => void;
+  analysisMode: AnalysisMode;
+  setAnalysisMode: (mode: AnalysisMode) => void;
+  analysis: DesignAnalysis | null; // Null until the geometry worker has analysed the design
   // Texture
   textureData: TextureData | null;
+  // Printer
+  printer: PrinterProfile;
+  printerProfiles: PrinterProfile[];
+  onPrinterProfilesChange: (profiles: PrinterProfile[]) => void;
+  // Toolpath Viewer
+  toolpathSource: ToolpathSource | null;
+  onToolpathSourceChange: (source: ToolpathSource | null) => void;
+  // Design Files
+  onOpenDesign: (file: File) => void; // Project file or 3MF
+  onSaveProject: () => void;
+  onCopyLink: (includeImage: boolean) => void;
+  onError: (message: string) => void;
+  // Undo History
+  history: DesignHistory;
+  onHistoryChange: (history: DesignHistory) => void;
 }
 
 export const Controls: React.FC<ControlsProps> = ({ 
   params, setParams, onGenerate, isGenerating,
   isSimulating, setIsSimulating, simProgress, setSimProgress,
-  showAnalysis, setShowAnalysis, textureData
+  analysisMode, setAnalysisMode, analysis, textureData,
+  printer, printerProfiles, onPrinterProfilesChange,
+  toolpathSource, onToolpathSourceChange, onOpenDesign, onSaveProject, onCopyLink, onError,
+  history, onHistoryChange
 }) => {
   const [activeSlider, setActiveSlider] = useState<keyof VesselParams | null>(null);
   const [isPrinterSettingsOpen, setIsPrinterSettingsOpen] = useState(false);
+  // Fraction written while an export is running, null when idle
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
   const [isAnalysisOpen, setIsAnalysisOpen] = useState(true);
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [shareImage, setShareImage] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   
-  const stats: PrintStats = useMemo(() => calculatePrintStats(params, textureData), [params, textureData]);
-
-  // Auto-play simulation
-  useEffect(() => {
-    let interval: number;
-    if (isSimulating) {
-      interval = window.setInterval(() => {
-        setSimProgress(prev => {
-          if (prev >= 1) {
-            setIsSimulating(false);
-            return 1;
-          }
-          return prev + 0.01;
-        });
-      }, 50);
-    }
-    return () => clearInterval(interval);
-  }, [isSimulating, setSimProgress, setIsSimulating]);
+  const fastLayers = useMemo(
+    () => (analysis ? getFastLayers(analysis.stats.layerTimes, params.minLayerTime) : []),
+    [analysis, params.minLayerTime]
+  );
+  const perimeters = getPerimeterLayout(params);
+  const material = resolveMaterial(params);
+  const shrinkage = shrinkageFactors(params);
+  // G-code is printed from the toolpath; every other format ships the mesh
+  const exportIssues = !analysis ? [] : params.exportFormat === 'gcode' ? analysis.bedIssues : analysis.validation.issues;
+  // Held until the design has been checked
+  const exportBlocked = !analysis || exportIssues.some(issue => issue.severity === 'error');
+  // Circular beds are described by their diameter alone
+  const bedDepth = printer.bedShape === 'circular' ? printer.bedWidth : printer.bedDepth;
 
-  const handleChange = (key: keyof VesselParams, value: number | string | null) => {
+  const handleChange = (key: keyof VesselParams, value: VesselParams[keyof VesselParams]) => {
     setParams(prev => ({ ...prev, [key]: value }));
   };
 
-  const handleDirectDownload = () => {
-    exportByType(params.exportFormat, params, textureData);
+  const handleDirectDownload = async () => {
+    if (exportBlocked || exportProgress !== null) return;
+    setExportProgress(0);
+    try {
+      await exportByType(params.exportFormat, params, printer, textureData, setExportProgress);
+    } catch (err) {
+      console.error(err);
+      onError(err instanceof Error ? `Export failed: ${err.message}` : "Export failed.");
+    } finally {
+      setExportProgress(null);
+    }
   };
   
+  const handleDesignImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onOpenDesign(file);
+  };
+
+  const handleGcodeImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onToolpathSourceChange({ kind: 'file', name: file.name, toolpath: parseGCODE(await file.text()) });
+  };
+
   // Camera Handlers
   const startCamera = async () => {
       try {
@@ -119,11 +175,9 @@ export const Controls: React.FC<ControlsProps> = ({
 
   const renderSlider = (
     label: React.ReactNode,
-    paramKey: keyof VesselParams,
-    min: number,
-    max: number,
-    step: number = 1,
-    unit: string = ""
+    paramKey: keyof typeof PARAM_LIMITS,
+    unit: string = "",
+    { min, max, step }: ParamLimit = PARAM_LIMITS[paramKey]
   ) => {
     const isActive = activeSlider === paramKey;
     return (
@@ -173,6 +227,8 @@ export const Controls: React.FC<ControlsProps> = ({
 
       <div className="space-y-8 flex-1">
         
+        <HistoryPanel history={history} onChange={onHistoryChange} />
+
         {/* Sim & Analysis Section */}
         <div className="bg-zinc-950/50 rounded-xl border border-zinc-800 overflow-hidden">
              <button
@@ -188,39 +244,121 @@ export const Controls: React.FC<ControlsProps> = ({
             
             {isAnalysisOpen && (
               <div className="p-4 space-y-4 animate-in slide-in-from-top-2">
-                {/* Stats Grid */}
-                <div className="grid grid-cols-2 gap-3 text-xs">
-                   <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
-                      <span className="block text-zinc-500 mb-1">Time</span>
-                      <span className="text-white font-mono">{Math.round(stats.estimatedTime)}m</span>
-                   </div>
-                   <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
-                      <span className="block text-zinc-500 mb-1">Weight</span>
-                      <span className="text-white font-mono">{Math.round(stats.filamentWeight)}g</span>
-                   </div>
-                   <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
-                      <span className="block text-zinc-500 mb-1">Height</span>
-                      <span className="text-white font-mono">{stats.layerHeight.toFixed(2)}mm</span>
-                   </div>
-                   <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
-                      <span className="block text-zinc-500 mb-1">Layers</span>
-                      <span className="text-white font-mono">{stats.totalLayers}</span>
-                   </div>
+                {!analysis ? (
+                  <p className="text-xs text-zinc-500">Analysing design…</p>
+                ) : (
+                  <>
+                  {/* Stats Grid */}
+                  <div className="grid grid-cols-2 gap-3 text-xs">
+                     <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
+                        <span className="block text-zinc-500 mb-1">Time</span>
+                        <span className="text-white font-mono">{Math.round(analysis.stats.estimatedTime)}m</span>
+                     </div>
+                     <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
+                        <span className="block text-zinc-500 mb-1">Weight</span>
+                        <span className="text-white font-mono">{Math.round(analysis.stats.filamentWeight)}g</span>
+                        <span className="text-zinc-500 font-mono"> · {Math.round(analysis.stats.dryWeight)}g dry</span>
+                     </div>
+                     <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
+                        <span className="block text-zinc-500 mb-1">Height</span>
+                        <span className="text-white font-mono">{analysis.stats.layerHeight.toFixed(2)}mm</span>
+                     </div>
+                     <div className="bg-zinc-900 p-2 rounded border border-zinc-800">
+                        <span className="block text-zinc-500 mb-1">Layers</span>
+                        <span className="text-white font-mono">{analysis.stats.totalLayers}</span>
+                     </div>
+                  </div>
+
+                  {/* Predicted Failure */}
+                  <div className={`p-2 rounded border text-xs ${analysis.stability.failureLayer !== null ? 'bg-red-900/10 border-red-700/30' : 'bg-zinc-900 border-zinc-800'}`}>
+                    <span className="block text-zinc-500 mb-1">Predicted Failure Layer</span>
+                    {analysis.stability.failureLayer !== null && analysis.stability.failureHeight !== null ? (
+                      <span className="text-red-400 font-mono">
+                        L{analysis.stability.failureLayer + 1} ({analysis.stability.failureHeight.toFixed(0)}mm) · {analysis.stability.failureMode === 'buckling' ? 'buckling' : 'plastic collapse'}
+                      </span>
+                    ) : (
+                      <span className="text-white font-mono">
+                        None · peak load {Math.round(Math.max(0, ...analysis.stability.layerRisk) * 100)}% of strength
+                      </span>
+                    )}
+                  </div>
+
+                  <LayerTimeChart layerTimes={analysis.stats.layerTimes} minLayerTime={params.minLayerTime} />
+                  </>
+                )}
+
+                {fastLayers.length > 0 && (
+                  <div className="p-2 rounded bg-yellow-900/10 border border-yellow-700/30">
+                    <p className="text-[10px] text-yellow-500 leading-tight">
+                      {fastLayers.length} layer{fastLayers.length > 1 ? 's' : ''} print in under {params.minLayerTime}s
+                      (from layer {fastLayers[0] + 1}). Wet clay may slump; switch Min Layer Time to Slow in Printer Config.
+                    </p>
+                  </div>
+                )}
+
+                {/* Heatmap Mode */}
+                <div className="space-y-2">
+                  <label className="text-xs text-zinc-400 flex items-center gap-1.5">
+                    {analysisMode === 'none' ? <AlertTriangle className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                    Heatmap
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([['none', 'Off'], ['overhang', 'Overhang'], ['layerTime', 'Layer Time'], ['stability', 'Stability'], ['mesh', 'Mesh Check']] as [AnalysisMode, string][]).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setAnalysisMode(mode)}
+                        className={`
+                          px-2 py-1.5 text-xs font-medium rounded-md border transition-all text-center
+                          ${analysisMode === mode
+                            ? mode === 'none'
+                              ? 'bg-zinc-700 border-zinc-600 text-white'
+                              : 'bg-red-900/20 border-red-500/50 text-red-200'
+                            : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:text-zinc-200'}
+                        `}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
 
-                {/* Overhang Toggle */}
-                <button
-                   onClick={() => setShowAnalysis(!showAnalysis)}
-                   className={`
-                      w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-medium border transition-all
-                      ${showAnalysis 
-                        ? 'bg-red-900/20 border-red-500/50 text-red-200' 
-                        : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:text-zinc-200'}
-                   `}
-                >
-                   {showAnalysis ? <Eye className="w-3.5 h-3.5" /> : <AlertTriangle className="w-3.5 h-3.5" />}
-                   {showAnalysis ? 'Hide Overhang Heatmap' : 'Show Overhang Heatmap'}
-                </button>
+                {/* Overhang Report */}
+                <div className="space-y-3 pt-2 border-t border-zinc-800">
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs text-zinc-400">Overhang</span>
+                    {analysis && (
+                      <span className="text-xs font-mono text-zinc-500">
+                        max <span className={analysis.overhang.maxAngle > material.maxOverhangAngle ? 'text-red-400' : 'text-white'}>{analysis.overhang.maxAngle.toFixed(1)}°</span>
+                        {' '}· mean <span className="text-white">{analysis.overhang.meanAngle.toFixed(1)}°</span>
+                      </span>
+                    )}
+                  </div>
+                  <CompactSlider
+                    label={`Allowed Angle (${material.name})`}
+                    value={material.maxOverhangAngle}
+                    min={MAX_OVERHANG_SPEC.min}
+                    max={MAX_OVERHANG_SPEC.max}
+                    step={MAX_OVERHANG_SPEC.step}
+                    unit={MAX_OVERHANG_SPEC.unit}
+                    onChange={(value) => setParams(prev => ({ ...prev, ...updateMaterial(prev, { maxOverhangAngle: value }) }))}
+                  />
+                  {analysis && analysis.overhang.worst.length > 0 && (
+                    <div className="bg-zinc-900 p-2 rounded border border-zinc-800 space-y-1">
+                      <span className="block text-[10px] text-zinc-500 uppercase tracking-wider">Worst Layers</span>
+                      {analysis.overhang.worst.map(layer => (
+                        <div
+                          key={layer.layer}
+                          className={`flex justify-between text-[10px] font-mono ${layer.maxAngle > material.maxOverhangAngle ? 'text-red-400' : 'text-zinc-300'}`}
+                        >
+                          <span>L{layer.layer + 1} · {layer.z.toFixed(1)}mm</span>
+                          <span>
+                            {layer.maxAngle.toFixed(1)}° · step {layer.maxStepOut.toFixed(2)}mm ({Math.round(layer.maxStepRatio * 100)}% bead)
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
 
                 {/* Simulation Control */}
                 <div className="pt-2 border-t border-zinc-800">
@@ -236,7 +374,7 @@ export const Controls: React.FC<ControlsProps> = ({
                        {isSimulating ? <Pause className="w-3.5 h-3.5"/> : <Play className="w-3.5 h-3.5 ml-0.5"/>}
                     </button>
                     <input 
-                      type="range" min="0" max="1" step="0.01"
+                      type="range" min="0" max="1" step="0.001"
                       value={simProgress}
                       onChange={(e) => {
                          setSimProgress(parseFloat(e.target.value));
@@ -257,14 +395,46 @@ export const Controls: React.FC<ControlsProps> = ({
           </h3>
           
           <div className="space-y-6">
-            {renderSlider("Height", "height", 50, 300, 1, "mm")}
-            {renderSlider("Base Radius", "baseRadius", 20, 100, 1, "mm")}
-            {renderSlider(<><BoxSelect className="w-3 h-3" /> Thickness</>, "wallThickness", 0, 10, 0.5, "mm")}
-            {renderSlider(<><Layers className="w-3 h-3" /> Layers</>, "layers", 50, 400, 10)}
-            {renderSlider("Mesh Detail", "segments", 30, 200, 10)}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={params.designForFiredSize}
+                  onChange={(e) => handleChange('designForFiredSize', e.target.checked)}
+                  className="accent-clay-500"
+                />
+                Design for fired size
+              </label>
+              {params.designForFiredSize && (
+                <p className="text-[10px] text-zinc-500 leading-tight">
+                  Sizes below are after firing. {material.name} prints {((shrinkage.horizontal - 1) * 100).toFixed(1)}% wider
+                  and {((shrinkage.vertical - 1) * 100).toFixed(1)}% taller to make up for shrinkage.
+                </p>
+              )}
+            </div>
+            {renderSlider("Height", "height", "mm")}
+            {renderSlider("Base Radius", "baseRadius", "mm")}
+            <ProfileEditor profile={params.profile} onChange={(profile) => handleChange('profile', profile)} />
+            <CrossSectionEditor
+              crossSection={params.crossSection}
+              rimCrossSection={params.rimCrossSection}
+              onChange={(crossSection) => handleChange('crossSection', crossSection)}
+              onRimChange={(rimCrossSection) => handleChange('rimCrossSection', rimCrossSection)}
+            />
+            {renderSlider(<><BoxSelect className="w-3 h-3" /> Thickness</>, "wallThickness", "mm")}
+            {renderSlider(<><Layers className="w-3 h-3" /> Layers</>, "layers")}
+            {renderSlider("Mesh Detail", "segments")}
           </div>
         </section>
 
+        {/* Clay Body Section */}
+        <section>
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <FlaskConical className="w-4 h-4" /> Clay Body
+          </h3>
+          <ClayMaterialPanel params={params} onChange={(patch) => setParams(prev => ({ ...prev, ...patch }))} />
+        </section>
+
         {/* Image Influence Section */}
         <section>
           <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-4 flex items-center gap-2">
@@ -299,7 +469,11 @@ export const Controls: React.FC<ControlsProps> = ({
                  </div>
              )}
              
-             {renderSlider("Texture Depth", "textureInfluence", 0, 30, 0.5, "mm")}
+             {!params.modifiers.some(m => m.type === 'texture' && m.enabled) && (
+                 <p className="text-[10px] text-zinc-500 leading-tight">
+                   Add an Image Displacement modifier under Surface Modifiers to apply the image.
+                 </p>
+             )}
           </div>
 
           {/* Camera Modal */}
@@ -328,14 +502,16 @@ export const Controls: React.FC<ControlsProps> = ({
         {/* Noise Section */}
         <section>
           <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-4 flex items-center gap-2">
-            <Activity className="w-4 h-4" /> Noise & Surface
+            <Activity className="w-4 h-4" /> Surface Modifiers
           </h3>
           
-          <div className="space-y-6">
-            {renderSlider("Amplitude", "noiseScale", 0, 50)}
-            {renderSlider("Frequency", "noiseFrequency", 1, 20, 0.5)}
-            {renderSlider(<><RotateCw className="w-3 h-3"/> Twist</>, "twist", 0, 10, 0.1)}
-          </div>
+          <ModifierStack
+            modifiers={params.modifiers}
+            onChange={(modifiers) => handleChange('modifiers', modifiers)}
+            hasTexture={!!textureData}
+            seed={params.noiseSeed}
+            onSeedChange={(seed) => handleChange('noiseSeed', seed)}
+          />
         </section>
 
         {/* Export Settings */}
@@ -347,8 +523,8 @@ export const Controls: React.FC<ControlsProps> = ({
             <div className="flex justify-between text-sm">
               <label className="text-zinc-300">Format Selection</label>
             </div>
-            <div className="grid grid-cols-4 gap-2">
-              {(['obj', 'stl', 'ply', 'gcode'] as ExportFormat[]).map((fmt) => (
+            <div className="grid grid-cols-3 gap-2">
+              {(['obj', 'stl', 'ply', '3mf', 'glb', 'gcode'] as ExportFormat[]).map((fmt) => (
                 <button
                   key={fmt}
                   onClick={() => handleChange('exportFormat', fmt)}
@@ -385,26 +561,127 @@ export const Controls: React.FC<ControlsProps> = ({
                 {isPrinterSettingsOpen && (
                   <div className="p-3 bg-zinc-950/30 space-y-4 border-t border-zinc-800 animate-in slide-in-from-top-2">
                     <div className="space-y-2">
-                      <label className="text-xs text-zinc-400 block">Printer Type</label>
-                      <select 
-                        value={params.printerType}
-                        onChange={(e) => handleChange('printerType', e.target.value)}
-                        className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600"
-                      >
-                        <option value="marlin">Generic (Marlin)</option>
-                        <option value="wasp">WASP / Delta</option>
-                        <option value="potterbot">Potterbot</option>
-                      </select>
+                      <label className="text-xs text-zinc-400 block">Printer Profile</label>
+                      <div className="flex gap-2">
+                        <select 
+                          value={printer.id}
+                          onChange={(e) => handleChange('printerProfileId', e.target.value)}
+                          className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600"
+                        >
+                          {printerProfiles.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setIsProfileEditorOpen(true)}
+                          title="Manage printer profiles"
+                          className="px-2 rounded border border-zinc-700 bg-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
+                        >
+                          <Settings className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      {params.printSpeed > printer.maxPrintSpeed && (
+                        <p className="text-[10px] text-yellow-500 leading-tight">
+                          Speed is capped at {printer.maxPrintSpeed} mm/min by this printer.
+                        </p>
+                      )}
+                    </div>
+
+                    {renderSlider("Nozzle Ø", "nozzleDiameter", "mm")}
+                    {renderSlider("Filament Ø", "filamentDiameter", "mm")}
+                    {renderSlider("Speed", "printSpeed", "mm/m")}
+                    {renderSlider("Min Layer Time", "minLayerTime", "s")}
+                    {params.minLayerTime > 0 && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {([['warn', 'Warn'], ['slow', 'Slow Down']] as [LayerTimeMode, string][]).map(([mode, label]) => (
+                          <button
+                            key={mode}
+                            onClick={() => handleChange('layerTimeMode', mode)}
+                            className={`
+                              px-2 py-1.5 text-xs font-medium rounded-md border transition-all text-center
+                              ${params.layerTimeMode === mode
+                                ? 'bg-clay-600 border-clay-500 text-white shadow-md'
+                                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}
+                            `}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <label className="text-xs text-zinc-400 block">Toolpath Mode</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['spiral', 'layered'] as GcodeMode[]).map((mode) => (
+                          <button
+                            key={mode}
+                            onClick={() => handleChange('gcodeMode', mode)}
+                            className={`
+                              px-2 py-1.5 text-xs font-bold uppercase rounded-md border transition-all text-center
+                              ${params.gcodeMode === mode
+                                ? 'bg-clay-600 border-clay-500 text-white shadow-md'
+                                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}
+                            `}
+                          >
+                            {mode}
+                          </button>
+                        ))}
+                      </div>
                     </div>
 
-                    {renderSlider("Nozzle Ø", "nozzleDiameter", 0.4, 5.0, 0.2, "mm")}
-                    {renderSlider("Filament Ø", "filamentDiameter", 1.75, 40, 0.05, "mm")}
-                    {renderSlider("Speed", "printSpeed", 300, 3000, 100, "mm/m")}
-                    
-                    {params.wallThickness > 0 && (
+                    {params.gcodeMode === 'layered' && (
+                      <>
+                        <div className="space-y-2">
+                          <label className="text-xs text-zinc-400 block">Seam Placement</label>
+                          <select
+                            value={params.seamPlacement}
+                            onChange={(e) => handleChange('seamPlacement', e.target.value as SeamPlacement)}
+                            className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600"
+                          >
+                            <option value="aligned">Aligned (single seam line)</option>
+                            <option value="scattered">Scattered (hide seam)</option>
+                          </select>
+                        </div>
+                        {renderSlider("Seam Angle", "seamAngle", "°")}
+                        <div className="p-2 rounded bg-zinc-900 border border-zinc-800">
+                          <p className="text-[10px] text-zinc-400 leading-tight">
+                            {perimeters.count} perimeter{perimeters.count > 1 ? 's' : ''} × {perimeters.width.toFixed(2)}mm bead per layer
+                            {params.wallThickness <= 0 && ' (set Thickness in Geometry for more)'}
+                          </p>
+                        </div>
+                      </>
+                    )}
+
+                    {renderSlider("Floor Layers", "floorLayers")}
+                    {params.floorLayers > 0 && (
+                      <>
+                        <div className="space-y-2">
+                          <label className="text-xs text-zinc-400 block">Floor Pattern</label>
+                          <select
+                            value={params.floorPattern}
+                            onChange={(e) => handleChange('floorPattern', e.target.value as FloorPattern)}
+                            className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600"
+                          >
+                            <option value="concentric">Concentric</option>
+                            <option value="rectilinear">Rectilinear (±45°)</option>
+                          </select>
+                        </div>
+                        {renderSlider("Infill Overlap", "floorOverlap", "%")}
+                      </>
+                    )}
+
+                    <div className="space-y-4 pt-2 border-t border-zinc-800">
+                      <label className="text-xs text-zinc-400 block">Bed Placement</label>
+                      {renderSlider("Offset X", "bedOffsetX", "mm", { min: -Math.round(printer.bedWidth / 2), max: Math.round(printer.bedWidth / 2), step: 1 })}
+                      {renderSlider("Offset Y", "bedOffsetY", "mm", { min: -Math.round(bedDepth / 2), max: Math.round(bedDepth / 2), step: 1 })}
+                      {renderSlider("Rotation", "bedRotation", "°")}
+                    </div>
+
+                    {params.gcodeMode === 'spiral' && params.wallThickness > 0 && (
                       <div className="p-2 rounded bg-yellow-900/10 border border-yellow-700/30">
                          <p className="text-[10px] text-yellow-500 leading-tight">
-                           Spiral vase mode: Single wall, continuous extrusion. Wall thickness settings in Geometry are ignored.
+                           Spiral vase mode: Single wall, continuous extrusion. Wall thickness settings in Geometry are ignored. Switch to Layered to print the full wall.
                          </p>
                       </div>
                     )}
@@ -413,13 +690,163 @@ export const Controls: React.FC<ControlsProps> = ({
               </div>
             )}
             
+            {isProfileEditorOpen && (
+              <PrinterProfileEditor
+                profiles={printerProfiles}
+                selectedId={printer.id}
+                onSelect={(id) => handleChange('printerProfileId', id)}
+                onProfilesChange={onPrinterProfilesChange}
+                onClose={() => setIsProfileEditorOpen(false)}
+              />
+            )}
+
+            {exportIssues.length > 0 && (
+              <div className={`p-2 rounded border space-y-1 ${exportBlocked ? 'bg-red-900/10 border-red-700/30' : 'bg-yellow-900/10 border-yellow-700/30'}`}>
+                {exportIssues.map((issue, i) => (
+                  <p
+                    key={i}
+                    className={`flex items-start gap-1.5 text-[10px] leading-tight ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-500'}`}
+                  >
+                    <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {(params.exportFormat === 'stl' || params.exportFormat === 'ply') && (
+              <div className="grid grid-cols-2 gap-2">
+                {([[true, 'Binary'], [false, 'ASCII']] as [boolean, string][]).map(([binary, label]) => (
+                  <button
+                    key={label}
+                    onClick={() => handleChange('exportBinary', binary)}
+                    className={`py-1.5 text-xs rounded-md border transition-colors
+                      ${params.exportBinary === binary
+                        ? 'bg-zinc-700 border-zinc-600 text-white'
+                        : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:text-zinc-200'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {params.exportFormat === 'obj' && (
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={params.exportObjMaterial}
+                  onChange={(e) => handleChange('exportObjMaterial', e.target.checked)}
+                  className="accent-clay-500"
+                />
+                Zip with MTL clay material
+              </label>
+            )}
+
+            {((params.exportFormat === 'obj' && params.exportObjMaterial) || params.exportFormat === 'glb') && params.textureImage && (
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={params.exportTexture}
+                  onChange={(e) => handleChange('exportTexture', e.target.checked)}
+                  className="accent-clay-500"
+                />
+                Bake texture image as colour
+              </label>
+            )}
+
             <button
               onClick={handleDirectDownload}
-              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-white border border-zinc-700 transition-all active:scale-[0.98] mt-2"
+              disabled={exportBlocked}
+              title={!analysis
+                ? 'Checking the design…'
+                : exportBlocked
+                  ? params.exportFormat === 'gcode' ? 'The vessel does not fit this printer' : 'The mesh would not slice cleanly'
+                  : undefined}
+              className="relative overflow-hidden w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-white border border-zinc-700 transition-all active:scale-[0.98] mt-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-zinc-800 disabled:active:scale-100"
+            >
+              {exportProgress !== null && (
+                <div
+                  className="absolute inset-y-0 left-0 bg-clay-600/40 transition-all duration-75"
+                  style={{ width: `${exportProgress * 100}%` }}
+                />
+              )}
+              <span className="relative flex items-center gap-2">
+                <FileDown className="w-4 h-4" />
+                {exportProgress !== null
+                  ? `Exporting… ${Math.round(exportProgress * 100)}%`
+                  : params.exportFormat === 'obj'
+                    ? 'Download .obj + .mtl (zip)'
+                    : `Download .${params.exportFormat}`}
+              </span>
+            </button>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={onSaveProject}
+                title={`Save the whole project as ${PROJECT_EXTENSION}`}
+                className="flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs border bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors"
+              >
+                <Save className="w-3.5 h-3.5" /> Save Project
+              </button>
+              <label
+                title={`Open a ${PROJECT_EXTENSION} project or a 3MF exported from here`}
+                className="flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs border bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors cursor-pointer"
+              >
+                <Upload className="w-3.5 h-3.5" /> Open Design
+                <input type="file" accept=".json,.3mf" className="hidden" onChange={handleDesignImport} />
+              </label>
+            </div>
+
+            <button
+              onClick={() => onCopyLink(shareImage && !!params.textureImage)}
+              title="Copy a link that opens this design"
+              className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs border bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors"
             >
-              <FileDown className="w-4 h-4" />
-              Download .{params.exportFormat}
+              <Link className="w-3.5 h-3.5" /> Copy Link
             </button>
+            {params.textureImage && (
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={shareImage}
+                  onChange={(e) => setShareImage(e.target.checked)}
+                  className="accent-clay-500"
+                />
+                Include texture image in link (reduced)
+              </label>
+            )}
+
+            {/* Toolpath Viewer */}
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => onToolpathSourceChange(toolpathSource?.kind === 'generated' ? null : { kind: 'generated' })}
+                className={`flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs border transition-colors
+                  ${toolpathSource?.kind === 'generated'
+                    ? 'bg-clay-600 border-clay-500 text-white'
+                    : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}
+              >
+                <Route className="w-3.5 h-3.5" /> Preview G-code
+              </button>
+              <label className="flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs border bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors cursor-pointer">
+                <Upload className="w-3.5 h-3.5" /> Open .gcode
+                <input type="file" accept=".gcode,.gco,.nc,.txt" className="hidden" onChange={handleGcodeImport} />
+              </label>
+            </div>
+            {toolpathSource && (
+              <div className="flex items-center justify-between gap-2 p-2 rounded bg-zinc-900 border border-zinc-800">
+                <span className="text-[10px] text-zinc-400 truncate">
+                  Viewing {toolpathSource.kind === 'file' ? toolpathSource.name : 'generated G-code'}
+                </span>
+                <button
+                  onClick={() => onToolpathSourceChange(null)}
+                  title="Back to mesh preview"
+                  className="text-zinc-500 hover:text-white transition-colors"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
           </div>
         </section>
       </div>
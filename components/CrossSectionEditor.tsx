@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { CrossSection, CrossSectionKind } from '../types';
+import { Upload } from 'lucide-react';
+import { CROSS_SECTION_LABELS, parseOutline, sectionRadius } from '../utils/crossSection';
+import { CROSS_SECTION_FIELD_SPECS } from '../utils/paramLimits';
+import { CompactSlider } from './ModifierStack';
+
+interface CrossSectionEditorProps {
+  crossSection: CrossSection;
+  rimCrossSection: CrossSection | null;
+  onChange: (crossSection: CrossSection) => void;
+  onRimChange: (rimCrossSection: CrossSection | null) => void;
+}
+
+const KINDS = Object.keys(CROSS_SECTION_LABELS) as CrossSectionKind[];
+const PREVIEW_SIZE = 120;
+const PREVIEW_SAMPLES = 180;
+
+// Closed SVG path of a section's polar outline, scaled to fit the preview
+const sectionPath = (section: CrossSection): string => {
+  const radii: number[] = [];
+  for (let i = 0; i < PREVIEW_SAMPLES; i++) {
+    radii.push(sectionRadius(section, (i / PREVIEW_SAMPLES) * Math.PI * 2));
+  }
+  const scale = (PREVIEW_SIZE / 2 - 6) / Math.max(...radii, 1);
+  const pts = radii.map((r, i) => {
+    const a = (i / PREVIEW_SAMPLES) * Math.PI * 2;
+    return `${(PREVIEW_SIZE / 2 + Math.cos(a) * r * scale).toFixed(1)},${(PREVIEW_SIZE / 2 + Math.sin(a) * r * scale).toFixed(1)}`;
+  });
+  return `M${pts.join(' L')} Z`;
+};
+
+const SectionFields: React.FC<{
+  section: CrossSection;
+  onChange: (section: CrossSection) => void;
+}> = ({ section, onChange }) => {
+  const formatOutline = (outline: CrossSection['outline']) => outline.map(p => `${p.x},${p.y}`).join('\n');
+  const [outlineText, setOutlineText] = useState(() => formatOutline(section.outline));
+  const [outlineError, setOutlineError] = useState<string | null>(null);
+  // The outline the text was typed for; anything else came from outside
+  // (undo, a project or a share link) and replaces the text
+  const [textOutline, setTextOutline] = useState(section.outline);
+  if (section.outline !== textOutline) {
+    setTextOutline(section.outline);
+    setOutlineText(formatOutline(section.outline));
+    setOutlineError(null);
+  }
+
+  const update = (patch: Partial<CrossSection>) => onChange({ ...section, ...patch });
+
+  const applyOutline = (text: string) => {
+    setOutlineText(text);
+    try {
+      const outline = parseOutline(text);
+      setTextOutline(outline);
+      update({ outline });
+      setOutlineError(null);
+    } catch (err) {
+      setOutlineError((err as Error).message);
+    }
+  };
+
+  const handleOutlineFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) applyOutline(await file.text());
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-1">
+        {KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => update({ kind })}
+            className={`
+              py-1 text-[10px] font-bold uppercase rounded border transition-all
+              ${section.kind === kind
+                ? 'bg-clay-600 border-clay-500 text-white'
+                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}
+            `}
+          >
+            {CROSS_SECTION_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {section.kind === 'outline' && (
+        <div className="space-y-1">
+          <textarea
+            value={outlineText}
+            onChange={(e) => applyOutline(e.target.value)}
+            rows={4}
+            placeholder={'x,y per line\n0,0\n60,0\n60,40\n0,40'}
+            className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-[11px] font-mono text-zinc-200 focus:outline-none focus:border-clay-500 resize-y"
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-white cursor-pointer">
+              <Upload className="w-3 h-3" /> Import .svg / .csv
+              <input type="file" accept=".svg,.csv,.txt" className="hidden" onChange={handleOutlineFile} />
+            </label>
+            <span className="text-[10px] text-zinc-500">{section.outline.length} pts</span>
+          </div>
+          {outlineError && <p className="text-[10px] text-red-400">{outlineError}</p>}
+        </div>
+      )}
+
+      {CROSS_SECTION_FIELD_SPECS[section.kind].map((spec) => (
+        <CompactSlider
+          key={spec.key}
+          label={spec.label}
+          value={section[spec.key]}
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          unit={spec.unit}
+          onChange={(value) => update({ [spec.key]: value })}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const CrossSectionEditor: React.FC<CrossSectionEditorProps> = ({
+  crossSection, rimCrossSection, onChange, onRimChange
+}) => {
+  const [editing, setEditing] = useState<'foot' | 'rim'>('foot');
+  const isRim = editing === 'rim' && rimCrossSection !== null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm items-center h-6">
+        <label className="text-zinc-300">Cross-Section</label>
+        <label className="flex items-center gap-1.5 text-[11px] text-zinc-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={rimCrossSection !== null}
+            onChange={(e) => {
+              onRimChange(e.target.checked ? { ...crossSection, outline: [...crossSection.outline] } : null);
+              setEditing(e.target.checked ? 'rim' : 'foot');
+            }}
+            className="accent-clay-500"
+          />
+          Morph to rim
+        </label>
+      </div>
+
+      <div className="flex gap-3 items-center">
+        <svg viewBox={`0 0 ${PREVIEW_SIZE} ${PREVIEW_SIZE}`} className="w-20 h-20 flex-shrink-0 rounded-lg bg-zinc-950 border border-zinc-800">
+          {rimCrossSection && (
+            <path d={sectionPath(rimCrossSection)} fill="none" stroke="#a18072" strokeWidth={1.5} strokeDasharray="3 2" />
+          )}
+          <path d={sectionPath(crossSection)} fill="rgba(161,128,114,0.25)" stroke="#d2bab0" strokeWidth={1.5} />
+        </svg>
+
+        {rimCrossSection && (
+          <div className="grid grid-cols-1 gap-1 flex-1">
+            {(['foot', 'rim'] as const).map((target) => (
+              <button
+                key={target}
+                onClick={() => setEditing(target)}
+                className={`
+                  py-1 text-[10px] font-bold uppercase rounded border transition-all
+                  ${editing === target
+                    ? 'bg-clay-600 border-clay-500 text-white'
+                    : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}
+                `}
+              >
+                Edit {target}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isRim ? (
+        <SectionFields key="rim" section={rimCrossSection} onChange={onRimChange} />
+      ) : (
+        <SectionFields key="foot" section={crossSection} onChange={onChange} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { VesselParams } from '../types';
+import { History, ChevronDown, ChevronUp, Undo2, Redo2, GitBranch } from 'lucide-react';
+import { DesignHistory, undo, redo, jumpTo, canUndo, canRedo, activePath } from '../utils/history';
+import { renderThumbnail } from '../utils/thumbnail';
+
+interface HistoryPanelProps {
+  history: DesignHistory;
+  onChange: (history: DesignHistory) => void;
+}
+
+const THUMBNAIL_SIZE = 40;
+
+// Entries keep their params object, so each thumbnail is drawn once. The
+// texture image is left out: only the current one is decoded, and a step may
+// have used another.
+const thumbnails = new WeakMap<VesselParams, string>();
+
+const thumbnailUrl = (params: VesselParams) => {
+  const cached = thumbnails.get(params);
+  if (cached) return cached;
+  const image = renderThumbnail(params, null, THUMBNAIL_SIZE);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  const url = canvas.toDataURL();
+  thumbnails.set(params, url);
+  return url;
+};
+
+const iconButton = 'p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+// Newest step first. Steps off the path to the current one belong to other
+// branches; clicking any step restores it, and editing from there branches.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const path = useMemo(() => activePath(history), [history]);
+  const entries = [...history.entries].reverse();
+
+  return (
+    <div className="bg-zinc-950/50 rounded-xl border border-zinc-800 overflow-hidden">
+      <div className="flex items-center justify-between p-3 bg-zinc-900/80 border-b border-zinc-800">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-clay-400 hover:text-clay-300 transition-colors"
+        >
+          <History className="w-4 h-4" />
+          <span className="text-xs font-semibold uppercase tracking-wider">History</span>
+          {isOpen ? <ChevronUp className="w-3.5 h-3.5 text-zinc-500" /> : <ChevronDown className="w-3.5 h-3.5 text-zinc-500" />}
+        </button>
+        <div className="flex gap-1">
+          <button className={iconButton} onClick={() => onChange(undo(history))} disabled={!canUndo(history)} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-3.5 h-3.5" />
+          </button>
+          <button className={iconButton} onClick={() => onChange(redo(history))} disabled={!canRedo(history)} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="max-h-64 overflow-y-auto p-2 space-y-1 animate-in slide-in-from-top-2">
+          {entries.map((entry) => {
+            const isCurrent = entry.id === history.current;
+            const onPath = path.has(entry.id);
+            return (
+              <button
+                key={entry.id}
+                onClick={() => onChange(jumpTo(history, entry.id))}
+                className={`w-full flex items-center gap-2 p-1 rounded-md border text-left transition-colors
+                  ${isCurrent
+                    ? 'bg-clay-600/20 border-clay-500/50'
+                    : 'border-transparent hover:bg-zinc-800'}
+                  ${onPath ? '' : 'opacity-50'}`}
+              >
+                <img
+                  src={thumbnailUrl(entry.params)}
+                  width={THUMBNAIL_SIZE}
+                  height={THUMBNAIL_SIZE}
+                  alt=""
+                  className="rounded bg-zinc-900 flex-shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className={`text-xs truncate ${isCurrent ? 'text-white' : 'text-zinc-300'}`}>{entry.label}</div>
+                  <div className="text-[10px] font-mono text-zinc-500">{new Date(entry.time).toLocaleTimeString()}</div>
+                </div>
+                {!onPath && <GitBranch className="w-3 h-3 text-zinc-500 flex-shrink-0" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
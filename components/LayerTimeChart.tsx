@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+
+interface LayerTimeChartProps {
+  layerTimes: number[]; // seconds
+  minLayerTime?: number; // seconds, 0 = no threshold
+}
+
+const WIDTH = 260;
+const HEIGHT = 90;
+const PADDING = 4;
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${seconds.toFixed(1)}s`;
+
+// Bar per layer, foot on the left, rim on the right. Hover to read a layer.
+// Layers under the minimum layer time are drawn red below a dashed threshold.
+export const LayerTimeChart: React.FC<LayerTimeChartProps> = ({ layerTimes, minLayerTime = 0 }) => {
+  const [hover, setHover] = useState<number | null>(null);
+  if (layerTimes.length === 0) return null;
+
+  const max = Math.max(...layerTimes, minLayerTime, 1e-6);
+  const barWidth = (WIDTH - PADDING * 2) / layerTimes.length;
+  const toY = (t: number) => HEIGHT - PADDING - (t / max) * (HEIGHT - PADDING * 2);
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (WIDTH / rect.width);
+    const index = Math.floor((x - PADDING) / barWidth);
+    setHover(index >= 0 && index < layerTimes.length ? index : null);
+  };
+
+  const shown = hover ?? layerTimes.indexOf(Math.max(...layerTimes));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px]">
+        <span className="text-zinc-500">Layer Time</span>
+        <span className="font-mono text-zinc-400">
+          L{shown + 1}: <span className="text-clay-300">{formatSeconds(layerTimes[shown])}</span>
+          {hover === null && <span className="text-zinc-600"> (max)</span>}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full bg-zinc-900 rounded border border-zinc-800"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHover(null)}
+      >
+        {layerTimes.map((t, i) => (
+          <rect
+            key={i}
+            x={PADDING + i * barWidth}
+            y={toY(t)}
+            width={Math.max(barWidth - (barWidth > 3 ? 1 : 0), 0.5)}
+            height={HEIGHT - PADDING - toY(t)}
+            fill={i === hover ? '#e0cec7' : t < minLayerTime ? '#ef4444' : '#8a6a5c'}
+          />
+        ))}
+        {minLayerTime > 0 && (
+          <line x1={PADDING} y1={toY(minLayerTime)} x2={WIDTH - PADDING} y2={toY(minLayerTime)} stroke="#f59e0b" strokeDasharray="3 3" />
+        )}
+      </svg>
+    </div>
+  );
+};
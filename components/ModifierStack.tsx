@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { SurfaceModifier, ModifierType, NoiseType } from '../types';
+import { ArrowUp, ArrowDown, Trash2, Plus, Eye, EyeOff, Dices } from 'lucide-react';
+import { MODIFIER_LABELS, createModifier } from '../utils/modifiers';
+import { modifierFields } from '../utils/paramLimits';
+
+interface ModifierStackProps {
+  modifiers: SurfaceModifier[];
+  onChange: (modifiers: SurfaceModifier[]) => void;
+  hasTexture: boolean;
+  seed: number;
+  onSeedChange: (seed: number) => void;
+}
+
+const MODIFIER_TYPES = Object.keys(MODIFIER_LABELS) as ModifierType[];
+const NOISE_TYPES: NoiseType[] = ['perlin', 'simplex'];
+
+export const CompactSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, unit = '', onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[11px]">
+      <span className="text-zinc-400">{label}</span>
+      <span className="font-mono text-clay-400">{value}{unit}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-clay-500"
+    />
+  </div>
+);
+
+export const ModifierStack: React.FC<ModifierStackProps> = ({ modifiers, onChange, hasTexture, seed, onSeedChange }) => {
+  const [newType, setNewType] = useState<ModifierType>('ripple');
+
+  const updateModifier = (index: number, patch: Record<string, number | boolean | string>) => {
+    onChange(modifiers.map((m, i) => (i === index ? { ...m, ...patch } as SurfaceModifier : m)));
+  };
+
+  const moveModifier = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= modifiers.length) return;
+    const next = [...modifiers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeModifier = (index: number) => {
+    onChange(modifiers.filter((_, i) => i !== index));
+  };
+
+  const iconButton = 'p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="space-y-3">
+      {/* Seed shared by every noise modifier; same seed = identical surface and export */}
+      <div className="flex items-center gap-2">
+        <label className="text-sm text-zinc-300 flex-1">Seed</label>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={seed}
+          onChange={(e) => onSeedChange(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          className="w-24 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs font-mono text-clay-300 focus:outline-none focus:border-clay-500"
+        />
+        <button
+          className={iconButton}
+          onClick={() => onSeedChange(Math.floor(Math.random() * 100000))}
+          title="Random seed"
+        >
+          <Dices className="w-4 h-4" />
+        </button>
+      </div>
+
+      {modifiers.length === 0 && (
+        <p className="text-xs text-zinc-500">No modifiers. The wall follows the profile curve exactly.</p>
+      )}
+
+      {modifiers.map((mod, index) => (
+        <div
+          key={mod.id}
+          className={`rounded-lg border border-zinc-800 bg-zinc-950/50 transition-opacity ${mod.enabled ? '' : 'opacity-50'}`}
+        >
+          <div className="flex items-center justify-between px-2 py-1.5 border-b border-zinc-800">
+            <span className="text-xs font-semibold text-zinc-300">
+              <span className="text-zinc-600 font-mono mr-1.5">{index + 1}</span>
+              {MODIFIER_LABELS[mod.type]}
+            </span>
+            <div className="flex items-center">
+              <button className={iconButton} onClick={() => updateModifier(index, { enabled: !mod.enabled })} title={mod.enabled ? 'Disable' : 'Enable'}>
+                {mod.enabled ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+              </button>
+              <button className={iconButton} onClick={() => moveModifier(index, -1)} disabled={index === 0} title="Move up">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button className={iconButton} onClick={() => moveModifier(index, 1)} disabled={index === modifiers.length - 1} title="Move down">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button className={`${iconButton} hover:text-red-400`} onClick={() => removeModifier(index)} title="Remove">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+
+          {mod.enabled && (
+            <div className="p-2 space-y-2">
+              {mod.type === 'noise' && (
+                <div className="grid grid-cols-2 gap-1">
+                  {NOISE_TYPES.map((noiseType) => (
+                    <button
+                      key={noiseType}
+                      onClick={() => updateModifier(index, { noiseType })}
+                      className={`
+                        py-1 text-[10px] font-bold uppercase rounded border transition-all
+                        ${mod.noiseType === noiseType
+                          ? 'bg-clay-600 border-clay-500 text-white'
+                          : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}
+                      `}
+                    >
+                      {noiseType}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {modifierFields(mod).map(({ spec, value }) => (
+                <CompactSlider
+                  key={spec.key}
+                  label={spec.label}
+                  value={value}
+                  min={spec.min}
+                  max={spec.max}
+                  step={spec.step}
+                  unit={spec.unit}
+                  onChange={(value) => updateModifier(index, { [spec.key]: value })}
+                />
+              ))}
+              <div className="grid grid-cols-2 gap-2">
+                <CompactSlider
+                  label="From"
+                  value={mod.vStart}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(value) => updateModifier(index, { vStart: Math.min(value, mod.vEnd) })}
+                />
+                <CompactSlider
+                  label="To"
+                  value={mod.vEnd}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(value) => updateModifier(index, { vEnd: Math.max(value, mod.vStart) })}
+                />
+              </div>
+              {mod.type === 'texture' && !hasTexture && (
+                <p className="text-[10px] text-yellow-500 leading-tight">No image loaded. Add one under Image Influence.</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as ModifierType)}
+          className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600"
+        >
+          {MODIFIER_TYPES.map((type) => (
+            <option key={type} value={type}>{MODIFIER_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange([...modifiers, createModifier(newType)])}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-medium bg-zinc-800 hover:bg-zinc-700 text-white border border-zinc-700 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> Add
+        </button>
+      </div>
+    </div>
+  );
+};
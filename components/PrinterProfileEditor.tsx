@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { PrinterProfile, BedShape, OriginConvention, Kinematics, ExtruderType } from '../types';
+import { X, Plus, Copy, Trash2, Upload, Download, Lock } from 'lucide-react';
+import {
+  duplicatePrinterProfile, parsePrinterProfiles, serializePrinterProfiles, isValidProfileNumber, TEMPLATE_VARIABLES,
+  PrinterNumberField
+} from '../utils/printerProfiles';
+import { downloadFile } from '../utils/exporters';
+
+interface PrinterProfileEditorProps {
+  profiles: PrinterProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onProfilesChange: (profiles: PrinterProfile[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-clay-500 transition-colors hover:border-zinc-600 disabled:opacity-50';
+const iconButton = 'p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="space-y-1">
+    <label className="text-[11px] text-zinc-400 block">{label}</label>
+    {children}
+  </div>
+);
+
+export const PrinterProfileEditor: React.FC<PrinterProfileEditorProps> = ({
+  profiles, selectedId, onSelect, onProfilesChange, onClose
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const selected = profiles.find(p => p.id === selectedId) ?? profiles[0];
+  const locked = selected.builtIn;
+
+  const update = <K extends keyof PrinterProfile>(key: K, value: PrinterProfile[K]) => {
+    onProfilesChange(profiles.map(p => (p.id === selected.id ? { ...p, [key]: value } : p)));
+  };
+
+  // Empty input, and numbers the profile cannot take, keep the last value
+  const numberField = (label: string, key: PrinterNumberField, step = 1) => (
+    <Field label={label}>
+      <input
+        type="number"
+        step={step}
+        min={0}
+        disabled={locked}
+        value={selected[key]}
+        onChange={(e) => {
+          const value = e.target.valueAsNumber;
+          if (isValidProfileNumber(key, value)) update(key, value);
+        }}
+        className={inputClass}
+      />
+    </Field>
+  );
+
+  const addProfile = (source: PrinterProfile, name?: string) => {
+    const profile = duplicatePrinterProfile(source, name);
+    onProfilesChange([...profiles, profile]);
+    onSelect(profile.id);
+  };
+
+  const deleteProfile = () => {
+    if (locked) return;
+    onProfilesChange(profiles.filter(p => p.id !== selected.id));
+    onSelect(profiles[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePrinterProfiles(await file.text(), profiles.map(p => p.id));
+      if (imported.length === 0) throw new Error('No printer profiles in this file');
+      onProfilesChange([...profiles, ...imported]);
+      onSelect(imported[0].id);
+      setImportError(null);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  const handleExport = () => {
+    const fileName = selected.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'printer';
+    downloadFile(serializePrinterProfiles([selected]), `${fileName}.printer.json`, 'application/json');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-zinc-900 rounded-2xl border border-zinc-700 shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <span className="text-sm font-semibold text-white">Printer Profiles</span>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile list */}
+          <div className="w-48 border-r border-zinc-800 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+              {profiles.map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => onSelect(p.id)}
+                  className={`w-full flex items-center justify-between gap-1 px-2 py-1.5 rounded text-xs text-left transition-colors
+                    ${p.id === selected.id ? 'bg-clay-600 text-white' : 'text-zinc-300 hover:bg-zinc-800'}`}
+                >
+                  <span className="truncate">{p.name}</span>
+                  {p.builtIn && <Lock className="w-3 h-3 flex-shrink-0 opacity-60" />}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-around p-2 border-t border-zinc-800">
+              <button className={iconButton} title="New profile" onClick={() => addProfile(profiles[0], 'New Printer')}>
+                <Plus className="w-4 h-4" />
+              </button>
+              <button className={iconButton} title="Duplicate" onClick={() => addProfile(selected)}>
+                <Copy className="w-4 h-4" />
+              </button>
+              <button className={`${iconButton} hover:text-red-400`} title="Delete" disabled={locked} onClick={deleteProfile}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+              <label className={`${iconButton} cursor-pointer`} title="Import JSON">
+                <Upload className="w-4 h-4" />
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+              </label>
+              <button className={iconButton} title="Export JSON" onClick={handleExport}>
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Profile fields */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {importError && <p className="text-[11px] text-red-400">{importError}</p>}
+            {locked && (
+              <p className="text-[11px] text-zinc-500">Built-in profiles are read-only. Duplicate to customise.</p>
+            )}
+
+            <Field label="Name">
+              <input type="text" disabled={locked} value={selected.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+            </Field>
+
+            <div className="grid grid-cols-3 gap-3">
+              <Field label="Bed Shape">
+                <select disabled={locked} value={selected.bedShape} onChange={(e) => update('bedShape', e.target.value as BedShape)} className={inputClass}>
+                  <option value="rectangular">Rectangular</option>
+                  <option value="circular">Circular</option>
+                </select>
+              </Field>
+              {numberField(selected.bedShape === 'circular' ? 'Bed Ø (mm)' : 'Bed X (mm)', 'bedWidth')}
+              {selected.bedShape === 'rectangular' ? numberField('Bed Y (mm)', 'bedDepth') : <div />}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              {numberField('Max Height (mm)', 'maxHeight')}
+              <Field label="Origin">
+                <select disabled={locked} value={selected.origin} onChange={(e) => update('origin', e.target.value as OriginConvention)} className={inputClass}>
+                  <option value="center">Bed centre</option>
+                  <option value="front-left">Front-left corner</option>
+                </select>
+              </Field>
+              <Field label="Kinematics">
+                <select disabled={locked} value={selected.kinematics} onChange={(e) => update('kinematics', e.target.value as Kinematics)} className={inputClass}>
+                  <option value="cartesian">Cartesian</option>
+                  <option value="delta">Delta</option>
+                </select>
+              </Field>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <Field label="Extruder">
+                <select disabled={locked} value={selected.extruderType} onChange={(e) => update('extruderType', e.target.value as ExtruderType)} className={inputClass}>
+                  <option value="filament">Filament</option>
+                  <option value="ram">Piston / Ram</option>
+                  <option value="auger">Auger / Screw</option>
+                </select>
+              </Field>
+              {numberField('Retract (mm E)', 'retractLength', 0.1)}
+              {numberField('Retract Speed (mm/min)', 'retractSpeed', 100)}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {numberField('Max Print Speed (mm/min)', 'maxPrintSpeed', 100)}
+              {numberField('Max Travel Speed (mm/min)', 'maxTravelSpeed', 100)}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {numberField('Acceleration (mm/s²)', 'maxAcceleration', 50)}
+              {numberField('Junction Deviation (mm)', 'junctionDeviation', 0.01)}
+            </div>
+
+            <Field label="Start G-code">
+              <textarea
+                rows={5}
+                disabled={locked}
+                value={selected.startGcode}
+                onChange={(e) => update('startGcode', e.target.value)}
+                className={`${inputClass} font-mono resize-y`}
+              />
+            </Field>
+            <Field label="End G-code">
+              <textarea
+                rows={4}
+                disabled={locked}
+                value={selected.endGcode}
+                onChange={(e) => update('endGcode', e.target.value)}
+                className={`${inputClass} font-mono resize-y`}
+              />
+            </Field>
+            <p className="text-[10px] text-zinc-500 leading-relaxed">
+              Variables: {TEMPLATE_VARIABLES.map(v => `{${v}}`).join(' ')}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { ProfilePoint } from '../types';
+import { PROFILE_PRESETS, PROFILE_MAX_RADIUS, normalizeProfile, sampleProfile } from '../utils/profile';
+
+interface ProfileEditorProps {
+  profile: ProfilePoint[];
+  onChange: (profile: ProfilePoint[]) => void;
+}
+
+const WIDTH = 260;
+const HEIGHT = 200;
+const PADDING = 12;
+const CURVE_SAMPLES = 64;
+
+// Vessel axis sits in the middle; radius grows to both sides so the editor
+// reads as a silhouette rather than a graph.
+const toX = (r: number, side: 1 | -1 = 1) =>
+  WIDTH / 2 + side * (r / PROFILE_MAX_RADIUS) * (WIDTH / 2 - PADDING);
+const toY = (v: number) => HEIGHT - PADDING - v * (HEIGHT - PADDING * 2);
+const fromX = (x: number) => Math.abs(x - WIDTH / 2) / (WIDTH / 2 - PADDING) * PROFILE_MAX_RADIUS;
+const fromY = (y: number) => (HEIGHT - PADDING - y) / (HEIGHT - PADDING * 2);
+
+export const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const getLocalPoint = (e: React.PointerEvent | React.MouseEvent) => {
+    const svg = svgRef.current;
+    if (!svg) return { x: 0, y: 0 };
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (WIDTH / rect.width),
+      y: (e.clientY - rect.top) * (HEIGHT / rect.height),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const { x, y } = getLocalPoint(e);
+    const isEndpoint = dragIndex === 0 || dragIndex === profile.length - 1;
+
+    // Keep points ordered by height: a point cannot be dragged past its neighbours
+    const lower = dragIndex > 0 ? profile[dragIndex - 1].v + 0.01 : 0;
+    const upper = dragIndex < profile.length - 1 ? profile[dragIndex + 1].v - 0.01 : 1;
+
+    const next = profile.map((p, i) => {
+      if (i !== dragIndex) return p;
+      return {
+        v: isEndpoint ? p.v : Math.min(upper, Math.max(lower, fromY(y))),
+        r: fromX(x),
+      };
+    });
+    onChange(normalizeProfile(next));
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const { x, y } = getLocalPoint(e);
+    const v = fromY(y);
+    if (v <= 0 || v >= 1) return;
+    onChange(normalizeProfile([...profile, { v, r: fromX(x) }]));
+  };
+
+  const removePoint = (index: number) => {
+    // Foot and rim are always present
+    if (index === 0 || index === profile.length - 1) return;
+    onChange(profile.filter((_, i) => i !== index));
+  };
+
+  // Build mirrored silhouette path from the spline
+  const right: string[] = [];
+  const left: string[] = [];
+  for (let i = 0; i <= CURVE_SAMPLES; i++) {
+    const v = i / CURVE_SAMPLES;
+    const r = sampleProfile(profile, v);
+    right.push(`${toX(r).toFixed(1)},${toY(v).toFixed(1)}`);
+    left.push(`${toX(r, -1).toFixed(1)},${toY(v).toFixed(1)}`);
+  }
+  const silhouette = `M${right.join(' L')} L${left.reverse().join(' L')} Z`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm items-center h-6">
+        <label className="text-zinc-300">Profile Curve</label>
+        <span className="text-[10px] text-zinc-500">Dbl-click: add / remove</span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded-lg bg-zinc-950 border border-zinc-800 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerLeave={() => setDragIndex(null)}
+        onDoubleClick={handleDoubleClick}
+      >
+        {/* Guides */}
+        <line x1={WIDTH / 2} y1={PADDING} x2={WIDTH / 2} y2={HEIGHT - PADDING} stroke="#3f3f46" strokeDasharray="2 3" />
+        <line x1={toX(1)} y1={PADDING} x2={toX(1)} y2={HEIGHT - PADDING} stroke="#27272a" />
+        <line x1={toX(1, -1)} y1={PADDING} x2={toX(1, -1)} y2={HEIGHT - PADDING} stroke="#27272a" />
+        <line x1={PADDING} y1={toY(0)} x2={WIDTH - PADDING} y2={toY(0)} stroke="#3f3f46" />
+
+        <path d={silhouette} fill="rgba(161,128,114,0.25)" stroke="#d2bab0" strokeWidth={1.5} />
+
+        {profile.map((p, i) => (
+          <circle
+            key={i}
+            cx={toX(p.r)}
+            cy={toY(p.v)}
+            r={dragIndex === i ? 6 : 4.5}
+            className="cursor-grab"
+            fill={dragIndex === i ? '#e0cec7' : '#a18072'}
+            stroke="#18181b"
+            strokeWidth={1.5}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              (e.currentTarget.ownerSVGElement as SVGSVGElement).setPointerCapture(e.pointerId);
+              setDragIndex(i);
+            }}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              removePoint(i);
+            }}
+          />
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-1.5">
+        {Object.keys(PROFILE_PRESETS).map((name) => (
+          <button
+            key={name}
+            onClick={() => onChange(PROFILE_PRESETS[name].map(p => ({ ...p })))}
+            className="px-2 py-1 text-[10px] font-semibold uppercase tracking-wider rounded border bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors"
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,39 +1,122 @@
-import React from 'react';
-import { VesselParams, TextureData } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { VesselParams, Toolpath, PrinterProfile } from '../types';
 import { VesselPreview } from './VesselPreview';
-import { X, PlayCircle, Printer } from 'lucide-react';
+import { X, Printer } from 'lucide-react';
+import { createTimeline, sampleToolpath } from '../utils/simulation';
+
+// Playback multipliers over real print time
+const PLAYBACK_SPEEDS = [1, 10, 100] as const;
+type PlaybackSpeed = (typeof PLAYBACK_SPEEDS)[number];
 
 interface SimulationWindowProps {
   isOpen: boolean;
   onClose: () => void;
   params: VesselParams;
-  simProgress: number;
-  textureData: TextureData | null;
+  printer: PrinterProfile;
+  toolpath: Toolpath | null;
+  simProgress: number; // Fraction of total print time
+  setSimProgress: (v: number) => void;
+  isSimulating: boolean;
+  setIsSimulating: (v: boolean) => void;
 }
 
-export const SimulationWindow: React.FC<SimulationWindowProps> = ({ isOpen, onClose, params, simProgress, textureData }) => {
+const formatClock = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+export const SimulationWindow: React.FC<SimulationWindowProps> = ({
+  isOpen, onClose, params, printer, toolpath, simProgress, setSimProgress, isSimulating, setIsSimulating
+}) => {
+  const [speed, setSpeed] = useState<PlaybackSpeed>(10);
+  const timeline = useMemo(() => (toolpath ? createTimeline(toolpath, printer) : null), [toolpath, printer]);
+
+  // The animation loop reads the latest progress without restarting every frame
+  const progressRef = useRef(simProgress);
+  progressRef.current = simProgress;
+
+  // Advance in real time, scaled by the playback speed
+  useEffect(() => {
+    if (!isOpen || !isSimulating || !timeline || timeline.total <= 0) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      const next = Math.min(1, progressRef.current + (elapsed * speed) / timeline.total);
+      setSimProgress(next);
+      if (next >= 1) {
+        setIsSimulating(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, isSimulating, timeline, speed, setSimProgress, setIsSimulating]);
+
   if (!isOpen) return null;
 
+  const time = timeline ? simProgress * timeline.total : 0;
+  const sample = toolpath && timeline ? sampleToolpath(toolpath, timeline, time) : null;
+  const layer = toolpath && sample ? toolpath.moves[sample.index]?.layer ?? 0 : 0;
+  const totalLayers = toolpath ? toolpath.layers.length : params.layers;
+
   return (
-    <div className="fixed bottom-6 right-6 w-96 h-96 z-50 flex flex-col bg-zinc-950 border border-zinc-700 rounded-xl shadow-[0_20px_60px_-15px_rgba(0,0,0,0.8)] overflow-hidden animate-in slide-in-from-bottom-5 zoom-in-95 duration-300">
+    <div className="fixed bottom-6 right-6 w-96 h-[26rem] z-50 flex flex-col bg-zinc-950 border border-zinc-700 rounded-xl shadow-[0_20px_60px_-15px_rgba(0,0,0,0.8)] overflow-hidden animate-in slide-in-from-bottom-5 zoom-in-95 duration-300">
       {/* Window Header */}
       <div className="h-10 bg-zinc-900 border-b border-zinc-800 flex items-center justify-between px-3 cursor-move select-none">
         <div className="flex items-center gap-2 text-clay-400">
           <Printer className="w-4 h-4" />
           <span className="text-xs font-bold uppercase tracking-wider text-zinc-300">Print Simulator</span>
         </div>
-        <button 
-          onClick={onClose}
-          className="text-zinc-500 hover:text-white transition-colors"
-        >
-          <X className="w-4 h-4" />
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-md border border-zinc-700 overflow-hidden">
+            {PLAYBACK_SPEEDS.map((s) => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`px-1.5 py-0.5 text-[10px] font-mono transition-colors
+                  ${speed === s ? 'bg-clay-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-white transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 relative">
-        <VesselPreview params={params} simProgress={simProgress} minimal={true} textureData={textureData} />
-        
+        <VesselPreview
+          params={params}
+          simulation={toolpath && timeline ? {
+            toolpath,
+            timeline,
+            time,
+            layerHeight: params.height / params.layers,
+            filamentDiameter: params.filamentDiameter,
+          } : null}
+          minimal={true}
+        />
+
+        {/* Machine Readout */}
+        {sample && (
+          <div className="absolute top-2 left-2 px-2 py-1 rounded bg-black/60 border border-white/10 font-mono text-[10px] text-zinc-300 leading-relaxed pointer-events-none">
+            <div>N <span className="text-white">{sample.line}</span></div>
+            <div>Z <span className="text-white">{sample.z.toFixed(2)}</span></div>
+            <div>E <span className="text-white">{sample.e.toFixed(2)}</span></div>
+          </div>
+        )}
+
         {/* Overlay Stats */}
         <div className="absolute bottom-0 left-0 right-0 p-3 bg-gradient-to-t from-black/90 to-transparent pointer-events-none">
            <div className="flex justify-between items-end">
@@ -42,18 +125,21 @@ export const SimulationWindow: React.FC<SimulationWindowProps> = ({ isOpen, onCl
                 <p className="text-2xl font-mono text-white font-bold leading-none">
                     {Math.round(simProgress * 100)}<span className="text-sm text-zinc-500">%</span>
                 </p>
+                <p className="text-[10px] font-mono text-zinc-500 mt-1">
+                    {formatClock(time)} / {formatClock(timeline?.total ?? 0)}
+                </p>
              </div>
              <div className="text-right">
                 <p className="text-[10px] text-zinc-400 uppercase tracking-widest font-semibold mb-0.5">Layer</p>
                 <p className="text-lg font-mono text-zinc-300 leading-none">
-                    {Math.floor(simProgress * params.layers)}<span className="text-zinc-600">/{params.layers}</span>
+                    {Math.min(layer + 1, totalLayers)}<span className="text-zinc-600">/{totalLayers}</span>
                 </p>
              </div>
            </div>
-           
+
            {/* Progress Bar */}
            <div className="mt-2 h-1 w-full bg-zinc-800 rounded-full overflow-hidden">
-              <div 
+              <div
                 className="h-full bg-clay-500 transition-all duration-75 ease-out"
                 style={{ width: `${simProgress * 100}%` }}
               />
@@ -62,4 +148,4 @@ export const SimulationWindow: React.FC<SimulationWindowProps> = ({ isOpen, onCl
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,50 +1,65 @@
-import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import React, { useMemo, useRef, useLayoutEffect, useEffect, useState, useId } from 'react';
 import * as THREE from 'three';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Environment, ContactShadows, Grid, Line } from '@react-three/drei';
-import { VesselParams, TextureData } from '../types';
-import { generateVesselMesh, calculateVesselPoint } from '../utils/geometry';
+import { OrbitControls, Environment, ContactShadows, Grid } from '@react-three/drei';
+import { VesselParams, TextureData, Toolpath, AnalysisMode } from '../types';
+import { decimateParams } from '../utils/geometry';
+import { VesselMeshData } from '../utils/geometryJobs';
+import { requestGeometry, isCancelledJob } from '../services/geometry';
+import { ToolpathTimeline, sampleToolpath, moveLength } from '../utils/simulation';
+import { OverhangAnalysis, overhangAt } from '../utils/overhang';
+import { MESH_FLAG_EDGE, MESH_FLAG_INVERTED } from '../utils/meshValidation';
+import { resolveMaterial } from '../utils/materials';
+import { PieceSize, paramsAtSize } from '../utils/shrinkage';
+
+// Vertex budget of the preview mesh while params are changing
+const LOD_VERTEX_BUDGET = 30000;
+// Full-resolution mesh is rebuilt once params stop changing for this long (ms)
+const LOD_SETTLE_MS = 300;
+
+// Heatmap levels: safe, warning, likely failure
+const HEAT_COLORS = ['#d2bab0', '#f59e0b', '#ef4444'];
+
+// Overhang scale runs this far past the allowed angle before reaching full red
+const OVERHANG_MARGIN = 15;
+
+// Colour stops (degrees) for the overhang heatmap and its legend
+const overhangStops = (allowed: number) => [
+  { angle: 0, color: HEAT_COLORS[0] },
+  { angle: allowed / 2, color: HEAT_COLORS[0] },
+  { angle: allowed, color: HEAT_COLORS[1] },
+  { angle: allowed + OVERHANG_MARGIN, color: HEAT_COLORS[2] },
+];
+
+const overhangColor = (angle: number, allowed: number, target: THREE.Color) => {
+  const stops = overhangStops(allowed);
+  if (angle >= stops[stops.length - 1].angle) return target.set(stops[stops.length - 1].color);
+  for (let i = 1; i < stops.length; i++) {
+    if (angle <= stops[i].angle) {
+      const span = stops[i].angle - stops[i - 1].angle;
+      const t = span > 0 ? (angle - stops[i - 1].angle) / span : 1;
+      return target.set(stops[i - 1].color).lerp(new THREE.Color(stops[i].color), t);
+    }
+  }
+  return target.set(stops[0].color);
+};
 
 interface VesselMeshProps {
   params: VesselParams;
-  simProgress: number;
-  showAnalysis: boolean;
-  textureData: TextureData | null;
+  mesh: VesselMeshData;
+  analysisMode: AnalysisMode;
+  layerTimes: number[];
+  layerRisk: number[];
+  overhang: OverhangAnalysis | null;
+  meshFlags: Uint8Array | null;
 }
 
-const VesselMesh: React.FC<VesselMeshProps> = ({ params, simProgress, showAnalysis, textureData }) => {
+const VesselMesh: React.FC<VesselMeshProps> = ({ params, mesh, analysisMode, layerTimes, layerRisk, overhang, meshFlags }) => {
+  const showAnalysis = analysisMode !== 'none';
   const meshRef = useRef<THREE.Mesh>(null);
   const geometryRef = useRef<THREE.BufferGeometry>(null);
 
-  // Generate Geometry
-  const { positions, indices } = useMemo(() => {
-    const meshData = generateVesselMesh(params, textureData);
-    return {
-      positions: meshData.vertices,
-      indices: meshData.indices
-    };
-  }, [params, textureData]);
-
-  // Clipping Plane for Simulation
-  // We recreate the plane when simProgress changes to ensure the material updates
-  const clippingPlanes = useMemo(() => {
-    // If simulation is complete (1.0), move plane infinitely high to show everything
-    // otherwise calculate cut height
-    const bottomY = -params.height / 2;
-    const currentHeight = params.height * simProgress;
-    
-    // Add a small epsilon to currentHeight to avoid z-fighting at the very bottom
-    const constant = (simProgress >= 0.995) 
-        ? Infinity 
-        : bottomY + currentHeight;
-
-    // Plane Normal (0, -1, 0) points DOWN.
-    // Plane Equation: 0x - 1y + 0z + constant > 0
-    // constant > y
-    // So keeps everything where y is LESS than constant.
-    const plane = new THREE.Plane(new THREE.Vector3(0, -1, 0), constant);
-    return [plane];
-  }, [params.height, simProgress]);
+  const { vertices: positions, indices } = mesh;
 
   useFrame(() => {
     if (meshRef.current) {
@@ -53,45 +68,70 @@ const VesselMesh: React.FC<VesselMeshProps> = ({ params, simProgress, showAnalys
     }
   });
 
-  // Calculate Vertex Colors for Analysis (Overhang Heatmap)
+  // Calculate Vertex Colors for Analysis (Overhang or Layer Time Heatmap)
   const colors = useMemo(() => {
     if (!showAnalysis) return null;
     
     const count = positions.length / 3;
     const colorArray = new Float32Array(count * 3);
-    const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setIndex(indices);
-    geometry.computeVertexNormals();
-    
-    const normals = geometry.attributes.normal.array;
     const color = new THREE.Color();
-    
-    for (let i = 0; i < count; i++) {
-        const nx = normals[i * 3];
-        const ny = normals[i * 3 + 1];
-        const nz = normals[i * 3 + 2];
-        
-        // Analyze Normal for Overhangs
-        // ny = 1 (Up), ny = 0 (Vertical), ny = -1 (Down)
-        
-        if (ny > -0.2) {
-            // Safe - Clay Color
-            color.set('#d2bab0'); 
-        } else if (ny > -0.5) {
-            // Warning - Yellow/Orange
-            color.set('#f59e0b');
-        } else {
-            // Danger - Red (Severe Overhang)
-            color.set('#ef4444');
+
+    if (analysisMode === 'layerTime' || analysisMode === 'stability') {
+        const { layers, height, minLayerTime } = params;
+        for (let i = 0; i < count; i++) {
+            // Vertex height -> printed layer
+            const layer = Math.min(layers - 1, Math.max(0, Math.floor((positions[i * 3 + 1] / height) * layers)));
+            let level: number;
+            if (analysisMode === 'stability') {
+                // Load over green strength: 1 means the wall gives way
+                const risk = layerRisk[layer] ?? 0;
+                level = risk >= 1 ? 2 : risk >= 0.6 ? 1 : 0;
+            } else {
+                // Layer time over the time the clay needs to stiffen
+                const ratio = minLayerTime > 0 ? (layerTimes[layer] ?? Infinity) / minLayerTime : Infinity;
+                level = ratio >= 1 ? 0 : ratio >= 0.6 ? 1 : 2;
+            }
+
+            // Clay Color when safe, Yellow/Orange for a warning, Red for likely failure
+            color.set(HEAT_COLORS[level]);
+
+            colorArray[i * 3] = color.r;
+            colorArray[i * 3 + 1] = color.g;
+            colorArray[i * 3 + 2] = color.b;
         }
-        
+        return colorArray;
+    }
+
+    if (analysisMode === 'mesh') {
+        // Flags only line up with the full-resolution mesh they were computed on
+        const flags = meshFlags && meshFlags.length === count ? meshFlags : null;
+        for (let i = 0; i < count; i++) {
+            const flag = flags ? flags[i] : 0;
+            // Red where the mesh is broken, amber where it is thin or degenerate
+            color.set(HEAT_COLORS[flag & (MESH_FLAG_EDGE | MESH_FLAG_INVERTED) ? 2 : flag ? 1 : 0]);
+
+            colorArray[i * 3] = color.r;
+            colorArray[i * 3 + 1] = color.g;
+            colorArray[i * 3 + 2] = color.b;
+        }
+        return colorArray;
+    }
+
+    // Overhang: every vertex (outer and inner shell) takes the angle the outer
+    // wall toolpath makes at its height and angle
+    const allowedAngle = resolveMaterial(params).maxOverhangAngle;
+    for (let i = 0; i < count; i++) {
+        const angle = overhang
+            ? overhangAt(overhang, params, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2])
+            : 0;
+        overhangColor(angle, allowedAngle, color);
+
         colorArray[i * 3] = color.r;
         colorArray[i * 3 + 1] = color.g;
         colorArray[i * 3 + 2] = color.b;
     }
     return colorArray;
-  }, [showAnalysis, positions, indices]);
+  }, [showAnalysis, analysisMode, positions, layerTimes, layerRisk, overhang, meshFlags, params]);
 
   useLayoutEffect(() => {
     if (geometryRef.current) {
@@ -101,7 +141,8 @@ const VesselMesh: React.FC<VesselMeshProps> = ({ params, simProgress, showAnalys
 
   return (
     <mesh ref={meshRef} position={[0, -params.height / 2, 0]} castShadow receiveShadow>
-      <bufferGeometry ref={geometryRef}>
+      {/* Remount when the buffer sizes change (LOD switch, layers, segments) */}
+      <bufferGeometry ref={geometryRef} key={`${positions.length}:${indices.length}`}>
         <bufferAttribute
           attach="attributes-position"
           array={positions}
@@ -110,7 +151,7 @@ const VesselMesh: React.FC<VesselMeshProps> = ({ params, simProgress, showAnalys
         />
         <bufferAttribute
           attach="index"
-          array={new Uint16Array(indices)}
+          array={indices}
           count={indices.length}
           itemSize={1}
         />
@@ -129,8 +170,6 @@ const VesselMesh: React.FC<VesselMeshProps> = ({ params, simProgress, showAnalys
             vertexColors
             roughness={0.8}
             side={THREE.DoubleSide}
-            clippingPlanes={clippingPlanes}
-            clipShadows={true}
          />
       ) : (
         <meshStandardMaterial 
@@ -139,129 +178,416 @@ const VesselMesh: React.FC<VesselMeshProps> = ({ params, simProgress, showAnalys
             metalness={0.1}
             side={THREE.DoubleSide}
             flatShading={false}
-            clippingPlanes={clippingPlanes}
-            clipShadows={true}
         />
       )}
     </mesh>
   );
 };
 
-const SimulationOverlay: React.FC<{ params: VesselParams; simProgress: number; textureData: TextureData | null }> = ({ params, simProgress, textureData }) => {
-  const { height, wallThickness, layers } = params;
-  
-  // Only show if simulation is active (and not fully complete/reset)
-  if (simProgress >= 0.995 || simProgress <= 0.005) return null;
-
-  // Calculate Nozzle Position
-  // The nozzle follows the spiral path.
-  // u (rotation) increases with layers.
-  const currentU = simProgress * layers; 
-  const currentV = simProgress;
-  
-  const nozzlePos = useMemo(() => {
-      // Use standard calculation (center of wall)
-      // Note: calculateVesselPoint returns y from 0 to height.
-      // We need to shift it to match the mesh position in the scene.
-      const p = calculateVesselPoint(params, currentU, currentV, 0, 0, 1, textureData);
-      return new THREE.Vector3(p.x, p.y, p.z);
-  }, [params, currentU, currentV, textureData]);
-
-  // Calculate Active Layer Rings (Outer and Inner) to visualize deposition
-  const { outerPoints, innerPoints } = useMemo(() => {
-      const segs = Math.min(params.segments, 128); // Cap resolution for perf
-      const out = [];
-      const inn = [];
-      
-      // We want the ring at the current PHYSICAL height of the nozzle
-      
-      for(let i=0; i<=segs; i++) {
-          const u = i/segs;
-          const pOut = calculateVesselPoint(params, u, currentV, 0, 0, 1, textureData);
-          out.push(new THREE.Vector3(pOut.x, pOut.y, pOut.z));
-          
-          if (wallThickness > 0) {
-              // Approximate inner wall top surface by offsetting radius
-              const pIn = calculateVesselPoint(params, u, currentV, -wallThickness, 0, 1, textureData);
-              // Force Y to match pOut to ensure a flat visual layer top
-              inn.push(new THREE.Vector3(pIn.x, pOut.y, pIn.z)); 
-          }
+// Nozzle assembly, tip at the local origin
+const Nozzle: React.FC<{ position: THREE.Vector3 }> = ({ position }) => (
+  <group position={position}>
+     {/* Nozzle Tip */}
+     <mesh position={[0, 2, 0]} rotation={[Math.PI, 0, 0]}>
+        <cylinderGeometry args={[0.5, 2, 4, 16]} />
+        <meshStandardMaterial color="#fbbf24" metalness={0.8} roughness={0.3} />
+     </mesh>
+     
+     {/* Heater Block */}
+     <mesh position={[0, 5, 0]}>
+        <boxGeometry args={[6, 3, 6]} />
+        <meshStandardMaterial color="#27272a" />
+     </mesh>
+     
+     {/* Heat Break / Throat */}
+     <mesh position={[0, 8, 0]}>
+         <cylinderGeometry args={[1.5, 1.5, 3]} />
+         <meshStandardMaterial color="#52525b" />
+     </mesh>
+     
+     {/* Filament entering top */}
+     <mesh position={[0, 15, 0]}>
+         <cylinderGeometry args={[0.8, 0.8, 15]} />
+         <meshStandardMaterial color="#e5e5e5" />
+     </mesh>
+
+      {/* Glowing Point Light at tip */}
+      <pointLight intensity={3} color="#ef4444" distance={15} decay={2} position={[0, -0.5, 0]} />
+  </group>
+);
+
+export interface SimulationFrame {
+  toolpath: Toolpath;
+  timeline: ToolpathTimeline;
+  time: number; // Seconds into the print
+  layerHeight: number; // mm, bead height
+  filamentDiameter: number; // mm, converts E into bead width
+}
+
+interface Bead {
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  width: number;
+}
+
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+
+/**
+ * Replays a toolpath: one box-shaped bead per extrusion move, laid down in
+ * order up to the current time, with the nozzle on the move being executed.
+ */
+const ToolpathSimulation: React.FC<{ frame: SimulationFrame }> = ({ frame }) => {
+  const { toolpath, timeline, time, layerHeight, filamentDiameter } = frame;
+  const { moves, origin, bounds } = toolpath;
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const partialRef = useRef(-1);
+
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+
+  // Beads in print order; firstBead[i] = beads laid before move i starts
+  const { beads, firstBead } = useMemo(() => {
+    const filamentArea = Math.PI * Math.pow(filamentDiameter / 2, 2);
+    // Printer Y -> scene Z, printer Z -> scene Y; the bead hangs below the nozzle tip
+    const toScene = (p: { x: number; y: number; z: number }) =>
+      new THREE.Vector3(p.x - centerX, p.z - layerHeight / 2, p.y - centerY);
+
+    const list: Bead[] = [];
+    const first = new Int32Array(moves.length);
+    let prev = origin;
+    let prevE = 0;
+    moves.forEach((move, i) => {
+      first[i] = list.length;
+      const length = moveLength(prev, move);
+      if (move.extrude && length > 1e-6) {
+        // Bead cross-section = extruded volume / length, spread over one layer height
+        const width = ((move.e - prevE) * filamentArea) / (length * layerHeight);
+        list.push({ from: toScene(prev), to: toScene(move), width: Math.min(Math.max(width, 0.1), 20) });
       }
-      return { outerPoints: out, innerPoints: inn };
-  }, [params, currentV, wallThickness, textureData]);
+      prev = move;
+      prevE = move.e;
+    });
+    return { beads: list, firstBead: first };
+  }, [moves, origin, centerX, centerY, layerHeight, filamentDiameter]);
 
-  return (
-    <group position={[0, -height / 2, 0]}>
-       {/* Active Layer Highlights - Glowing lines at the cut plane */}
-       <Line points={outerPoints} color="#ef4444" lineWidth={3} transparent opacity={0.6} />
-       {wallThickness > 0 && (
-          <Line points={innerPoints} color="#ef4444" lineWidth={3} transparent opacity={0.6} />
-       )}
+  const setBead = (mesh: THREE.InstancedMesh, index: number, fraction: number, dummy = new THREE.Object3D()) => {
+    const bead = beads[index];
+    const dir = bead.to.clone().sub(bead.from);
+    const length = dir.length() * fraction;
+    dir.normalize();
+    dummy.position.copy(bead.from).addScaledVector(dir, length / 2);
+    dummy.quaternion.setFromUnitVectors(X_AXIS, dir);
+    dummy.scale.set(Math.max(length, 1e-3), layerHeight, bead.width);
+    dummy.updateMatrix();
+    mesh.setMatrixAt(index, dummy.matrix);
+  };
+
+  // Full matrices once per toolpath
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dummy = new THREE.Object3D();
+    for (let i = 0; i < beads.length; i++) setBead(mesh, i, 1, dummy);
+    partialRef.current = -1;
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [beads]);
+
+  const sample = sampleToolpath(toolpath, timeline, time);
+
+  // Show finished beads plus the one being laid, grown to the nozzle
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const move = moves[sample.index];
+    const active = move?.extrude && firstBead[sample.index] < beads.length ? firstBead[sample.index] : -1;
+    const count = move ? firstBead[sample.index] + (active >= 0 ? 1 : 0) : 0;
+
+    // Restore the previously growing bead before starting a new one
+    if (partialRef.current >= 0 && partialRef.current !== active && partialRef.current < beads.length) {
+      setBead(mesh, partialRef.current, 1);
+    }
+    if (active >= 0) setBead(mesh, active, sample.fraction);
+    partialRef.current = active;
+
+    mesh.count = Math.min(count, beads.length);
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [sample.index, sample.fraction, beads, firstBead, moves]);
+
+  const nozzlePosition = new THREE.Vector3(sample.x - centerX, sample.z, sample.y - centerY);
+  const finished = time >= timeline.total;
 
-       {/* Nozzle Assembly Visualization */}
-       <group position={nozzlePos}>
-          {/* Nozzle Tip */}
-          <mesh position={[0, 2, 0]} rotation={[Math.PI, 0, 0]}>
-             <cylinderGeometry args={[0.5, 2, 4, 16]} />
-             <meshStandardMaterial color="#fbbf24" metalness={0.8} roughness={0.3} />
-          </mesh>
-          
-          {/* Heater Block */}
-          <mesh position={[0, 5, 0]}>
-             <boxGeometry args={[6, 3, 6]} />
-             <meshStandardMaterial color="#27272a" />
-          </mesh>
-          
-          {/* Heat Break / Throat */}
-          <mesh position={[0, 8, 0]}>
-              <cylinderGeometry args={[1.5, 1.5, 3]} />
-              <meshStandardMaterial color="#52525b" />
-          </mesh>
-          
-          {/* Filament entering top */}
-          <mesh position={[0, 15, 0]}>
-              <cylinderGeometry args={[0.8, 0.8, 15]} />
-              <meshStandardMaterial color="#e5e5e5" />
-          </mesh>
-
-           {/* Glowing Point Light at tip */}
-           <pointLight intensity={3} color="#ef4444" distance={15} decay={2} position={[0, -0.5, 0]} />
-       </group>
+  return (
+    <group position={[0, -bounds.maxZ / 2, 0]}>
+      <instancedMesh key={beads.length} ref={meshRef} args={[undefined, undefined, Math.max(1, beads.length)]} castShadow receiveShadow>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color="#d2bab0" roughness={0.6} metalness={0.1} />
+      </instancedMesh>
+      {!finished && <Nozzle position={nozzlePosition} />}
     </group>
   );
 };
 
+const TRAVEL_COLOR = new THREE.Color('#52525b');
+const NO_LAYER_VALUES: number[] = [];
+
+const HEATMAP_LABELS: Record<AnalysisMode, string> = {
+  none: '',
+  overhang: 'Overhang',
+  layerTime: 'Layer Time',
+  stability: 'Stability',
+  mesh: 'Mesh Check',
+};
+
+interface ToolpathViewProps {
+  toolpath: Toolpath;
+  fromLayer: number;
+  toLayer: number;
+  showTravel: boolean;
+}
+
+// G-code moves as line segments: extrusion coloured by layer (blue at the foot
+// to red at the rim), travel in grey. Centred on the extrusion footprint.
+const ToolpathView: React.FC<ToolpathViewProps> = ({ toolpath, fromLayer, toLayer, showTravel }) => {
+  const { moves, origin, bounds, layers } = toolpath;
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+
+  const geometry = useMemo(() => {
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const color = new THREE.Color();
+    const lastLayer = Math.max(1, layers.length - 1);
+
+    let prev = origin;
+    for (const move of moves) {
+      const visible = move.layer >= fromLayer && move.layer <= toLayer && (move.extrude || showTravel);
+      if (visible) {
+        // Printer Y -> scene Z, printer Z -> scene Y
+        positions.push(prev.x - centerX, prev.z, prev.y - centerY, move.x - centerX, move.z, move.y - centerY);
+        if (move.extrude) {
+          color.setHSL(0.66 * (1 - move.layer / lastLayer), 0.75, 0.55);
+        } else {
+          color.copy(TRAVEL_COLOR);
+        }
+        colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+      }
+      prev = move;
+    }
+
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    g.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    return g;
+  }, [moves, origin, layers.length, fromLayer, toLayer, showTravel, centerX, centerY]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} position={[0, -bounds.maxZ / 2, 0]}>
+      <lineBasicMaterial vertexColors />
+    </lineSegments>
+  );
+};
+
 export const VesselPreview: React.FC<{ 
     params: VesselParams, 
-    simProgress?: number, 
-    showAnalysis?: boolean,
+    simulation?: SimulationFrame | null, 
+    analysisMode?: AnalysisMode,
+    layerTimes?: number[],
+    layerRisk?: number[],
+    overhang?: OverhangAnalysis | null,
+    meshFlags?: Uint8Array | null,
     minimal?: boolean,
-    textureData?: TextureData | null
-}> = ({ params, simProgress = 1, showAnalysis = false, minimal = false, textureData = null }) => {
+    textureData?: TextureData | null,
+    toolpath?: Toolpath | null,
+    toolpathLabel?: string
+}> = ({ params, simulation = null, analysisMode = 'none', layerTimes = NO_LAYER_VALUES, layerRisk = NO_LAYER_VALUES, overhang = null, meshFlags = null, minimal = false, textureData = null, toolpath = null, toolpathLabel = '' }) => {
+  // Layer range shown in the toolpath viewer; null means all layers
+  const [layerRange, setLayerRange] = useState<[number, number] | null>(null);
+  const [showTravel, setShowTravel] = useState(true);
+
+  const maxLayer = toolpath ? toolpath.layers.length - 1 : 0;
+  const fromLayer = Math.min(layerRange?.[0] ?? 0, maxLayer);
+  const toLayer = Math.max(fromLayer, Math.min(layerRange?.[1] ?? maxLayer, maxLayer));
+
+  // Green (as printed) or fired size; params may be entered as either
+  const [pieceSize, setPieceSize] = useState<PieceSize>('green');
+  const shownParams = useMemo(() => paramsAtSize(params, pieceSize), [params, pieceSize]);
+
+  // While params keep changing, show a decimated mesh; rebuild at full
+  // resolution once they have settled
+  const [isSettled, setIsSettled] = useState(true);
+  const firstParams = useRef(true);
+  useEffect(() => {
+    if (firstParams.current) {
+      firstParams.current = false;
+      return;
+    }
+    setIsSettled(false);
+    const timer = setTimeout(() => setIsSettled(true), LOD_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [shownParams, textureData]);
+
+  const showMesh = !simulation && !toolpath;
+  const allowedAngle = resolveMaterial(params).maxOverhangAngle;
+  const meshParams = useMemo(
+    () => (isSettled ? shownParams : decimateParams(shownParams, LOD_VERTEX_BUDGET)),
+    [isSettled, shownParams]
+  );
+  // Built in the geometry worker; the last mesh stays up until the next arrives
+  const meshChannel = useId();
+  const [mesh, setMesh] = useState<VesselMeshData | null>(null);
+  const [isDecimated, setIsDecimated] = useState(false);
+  useEffect(() => {
+    if (!showMesh) return;
+    requestGeometry('mesh', { params: meshParams, textureData }, { channel: meshChannel })
+      .then(result => {
+        setMesh(result);
+        setIsDecimated(meshParams !== shownParams);
+      })
+      .catch(err => {
+        if (!isCancelledJob(err)) console.error('Mesh generation failed', err);
+      });
+  }, [showMesh, meshParams, shownParams, textureData, meshChannel]);
+
+  // Overall size of the shown mesh (mm)
+  const dimensions = useMemo(() => {
+    if (!mesh) return null;
+    const v = mesh.vertices;
+    let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity, maxY = 0;
+    for (let i = 0; i < v.length; i += 3) {
+      minX = Math.min(minX, v[i]);
+      maxX = Math.max(maxX, v[i]);
+      maxY = Math.max(maxY, v[i + 1]);
+      minZ = Math.min(minZ, v[i + 2]);
+      maxZ = Math.max(maxZ, v[i + 2]);
+    }
+    return { width: maxX - minX, depth: maxZ - minZ, height: maxY };
+  }, [mesh]);
+
+  // Toolpaths sit on the grid the same way the mesh does
+  const shownToolpath = simulation?.toolpath ?? toolpath;
+  const floorY = shownToolpath ? -shownToolpath.bounds.maxZ / 2 : -shownParams.height / 2;
+
   return (
     <div className={`w-full h-full rounded-xl overflow-hidden shadow-2xl relative ${minimal ? 'bg-zinc-950' : 'bg-zinc-900'}`}>
        {!minimal && (
           <div className="absolute top-4 left-4 z-10 bg-black/50 backdrop-blur-md px-3 py-1 rounded-full text-xs text-white border border-white/10 flex gap-2 items-center pointer-events-none select-none">
-            <span>Live WebGL Preview</span>
-            {showAnalysis && <span className="text-red-400 font-bold">• Heatmap Active</span>}
+            <span>{toolpath ? `Toolpath: ${toolpathLabel}` : 'Live WebGL Preview'}</span>
+            {analysisMode !== 'none' && !toolpath && (
+              <span className="text-red-400 font-bold">• {HEATMAP_LABELS[analysisMode]} Heatmap</span>
+            )}
+          </div>
+       )}
+
+       {!minimal && showMesh && mesh && (
+          <div className="absolute top-4 right-4 z-10 bg-black/50 backdrop-blur-md px-3 py-1 rounded-full text-[10px] font-mono text-zinc-400 border border-white/10 pointer-events-none select-none">
+            {(mesh.vertices.length / 3).toLocaleString()} verts · {(mesh.indices.length / 3).toLocaleString()} tris
+            {isDecimated && <span className="text-amber-400"> · LOD</span>}
+          </div>
+       )}
+
+       {!minimal && showMesh && dimensions && (
+          <div className="absolute bottom-4 right-4 z-10 bg-black/60 backdrop-blur-md px-2 py-1.5 rounded-lg border border-white/10 text-[10px] flex items-center gap-2 select-none">
+            <div className="flex rounded-md overflow-hidden border border-white/10">
+              {([['green', 'Green'], ['fired', 'Fired']] as [PieceSize, string][]).map(([size, label]) => (
+                <button
+                  key={size}
+                  onClick={() => setPieceSize(size)}
+                  className={`px-2 py-0.5 transition-colors ${pieceSize === size ? 'bg-clay-600 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <span className="font-mono text-zinc-300">
+              {dimensions.width.toFixed(1)} × {dimensions.depth.toFixed(1)} × {dimensions.height.toFixed(1)}mm
+            </span>
+          </div>
+       )}
+
+       {!minimal && !toolpath && analysisMode === 'overhang' && (
+          <div className="absolute bottom-4 left-4 z-10 w-56 bg-black/60 backdrop-blur-md px-3 py-2 rounded-lg border border-white/10 text-[10px] text-zinc-400 pointer-events-none select-none">
+            <div className="mb-1 text-zinc-300">Overhang from vertical</div>
+            <div
+              className="h-2 rounded-full"
+              style={{
+                background: `linear-gradient(to right, ${overhangStops(allowedAngle)
+                  .map(stop => `${stop.color} ${(stop.angle / (allowedAngle + OVERHANG_MARGIN)) * 100}%`)
+                  .join(', ')})`,
+              }}
+            />
+            <div className="relative h-3 mt-1 font-mono">
+              {overhangStops(allowedAngle).map((stop, i, stops) => (
+                <span
+                  key={i}
+                  className={`absolute ${i === stops.length - 2 ? 'text-amber-400' : ''}`}
+                  style={{
+                    left: `${(stop.angle / (allowedAngle + OVERHANG_MARGIN)) * 100}%`,
+                    transform: i === 0 ? undefined : i === stops.length - 1 ? 'translateX(-100%)' : 'translateX(-50%)',
+                  }}
+                >
+                  {Math.round(stop.angle)}°{i === stops.length - 1 ? '+' : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+       )}
+
+       {!minimal && toolpath && (
+          <div className="absolute bottom-4 left-4 right-4 z-10 bg-black/60 backdrop-blur-md px-3 py-2 rounded-lg border border-white/10 space-y-1.5 text-[11px] text-zinc-300">
+            <div className="flex justify-between items-center">
+              <span>
+                Layers <span className="font-mono text-clay-300">{fromLayer + 1}–{toLayer + 1}</span>
+                <span className="text-zinc-500"> / {maxLayer + 1}</span>
+                <span className="text-zinc-500"> · Z {toolpath.layers[toLayer].toFixed(2)}mm</span>
+              </span>
+              <label className="flex items-center gap-1.5 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={showTravel}
+                  onChange={(e) => setShowTravel(e.target.checked)}
+                  className="accent-clay-500"
+                />
+                Travel
+              </label>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={maxLayer}
+              value={fromLayer}
+              onChange={(e) => setLayerRange([Number(e.target.value), Math.max(Number(e.target.value), toLayer)])}
+              className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-clay-500"
+            />
+            <input
+              type="range"
+              min={0}
+              max={maxLayer}
+              value={toLayer}
+              onChange={(e) => setLayerRange([Math.min(fromLayer, Number(e.target.value)), Number(e.target.value)])}
+              className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-clay-500"
+            />
           </div>
        )}
       
-      {/* 
-        localClippingEnabled is required for object-level clippingPlanes to work.
-      */}
-      <Canvas shadows camera={{ position: [50, 40, 50], fov: 45 }} localClippingEnabled>
-        <OrbitControls makeDefault autoRotate={simProgress >= 1 && !minimal} autoRotateSpeed={0.5} />
+      <Canvas shadows camera={{ position: [50, 40, 50], fov: 45 }}>
+        <OrbitControls makeDefault autoRotate={!simulation && !minimal && !toolpath} autoRotateSpeed={0.5} />
         <Environment preset="studio" />
         
         <ambientLight intensity={0.5} />
         <spotLight position={[50, 50, 20]} angle={0.3} penumbra={1} intensity={1000} castShadow />
         
-        <VesselMesh params={params} simProgress={simProgress} showAnalysis={showAnalysis} textureData={textureData} />
-        <SimulationOverlay params={params} simProgress={simProgress} textureData={textureData} />
+        {simulation ? (
+          <ToolpathSimulation frame={simulation} />
+        ) : toolpath ? (
+          <ToolpathView toolpath={toolpath} fromLayer={fromLayer} toLayer={toLayer} showTravel={showTravel} />
+        ) : showMesh && mesh && (
+          <VesselMesh params={shownParams} mesh={mesh} analysisMode={analysisMode} layerTimes={layerTimes} layerRisk={layerRisk} overhang={overhang} meshFlags={meshFlags} />
+        )}
         
-        <Grid position={[0, -params.height / 2, 0]} args={[100, 100]} cellSize={5} sectionSize={25} fadeDistance={200} sectionColor="#666" cellColor="#333" />
-        <ContactShadows position={[0, -params.height / 2, 0]} opacity={0.5} scale={50} blur={2.5} far={10} />
+        <Grid position={[0, floorY, 0]} args={[100, 100]} cellSize={5} sectionSize={25} fadeDistance={200} sectionColor="#666" cellColor="#333" />
+        <ContactShadows position={[0, floorY, 0]} opacity={0.5} scale={50} blur={2.5} far={10} />
       </Canvas>
     </div>
   );
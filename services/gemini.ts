@@ -1,25 +1,61 @@
 import { GoogleGenAI, Schema, Type } from "@google/genai";
-import { VesselParams, GeneratedScript } from "../types";
+import { VesselParams, GeneratedScript, SurfaceModifier, CrossSection, PrinterProfile } from "../types";
+import { MODIFIER_LABELS } from "../utils/modifiers";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const generateProcessingCode = async (params: VesselParams): Promise<GeneratedScript> => {
+const describeSection = (section: CrossSection): string => {
+  const common = `aspect ${section.aspect}, rotated ${section.rotation} degrees`;
+  switch (section.kind) {
+    case 'polygon': return `${section.sides}-sided polygon with flat faces at the radius, corner rounding ${section.rounding} (${common})`;
+    case 'superellipse': return `superellipse with exponent ${section.exponent} (${common})`;
+    case 'star': return `${section.sides}-pointed star, notch depth ${section.depth} of the radius (${common})`;
+    case 'petal': return `${section.sides}-lobed petal shape, depth ${section.depth} (${common})`;
+    case 'outline': return `custom closed outline of ${section.outline.length} points: ${section.outline.map(p => `(${p.x}, ${p.y})`).join(' ')} (${common})`;
+    case 'circle':
+    default:
+      return `circle (${common})`;
+  }
+};
+
+// One line per active modifier, in evaluation order, for the prompt
+const describeModifier = (mod: SurfaceModifier, seed: number): string => {
+  const range = `height ${mod.vStart.toFixed(2)}-${mod.vEnd.toFixed(2)}`;
+  switch (mod.type) {
+    case 'noise': return `Seeded fractal ${mod.noiseType} noise: ${mod.amplitude}mm amplitude, ${mod.scale}mm feature size, ${mod.octaves} octaves (lacunarity ${mod.lacunarity}, persistence ${mod.persistence}), seed ${seed + mod.seedOffset}, sampled on the cylinder so it wraps seamlessly (${range})`;
+    case 'ripple': return `Sine ripple: sin(angle * ${mod.frequency}) * cos(v * height * ${mod.frequency} * 0.5) * ${mod.amplitude}mm (${range})`;
+    case 'twist': return `Twist: rotate the angle used by later modifiers by ${mod.amount} radians over the range (${range})`;
+    case 'texture': return `Image displacement: brightness * ${mod.depth}mm (${range})`;
+    case 'ridges': return `Ridges: ${mod.count} vertical ridges, ${mod.depth}mm deep, sharpness ${mod.sharpness} (${range})`;
+    case 'facets': return `Facets: flatten into ${mod.count} flat faces, strength ${mod.strength} (${range})`;
+    case 'bulge': return `Bulge band: ${mod.amount}mm gaussian band at ${mod.center}, width ${mod.width} (${range})`;
+  }
+};
+
+export const generateProcessingCode = async (params: VesselParams, printer: PrinterProfile): Promise<GeneratedScript> => {
   
   const isGcode = params.exportFormat === 'gcode';
   
   const formatInstruction = isGcode
-    ? `3. G-CODE EXPORT: Instead of just a mesh, the script must generate the actual print path (G1 moves) for a spiralized vase mode.
+    ? `3. G-CODE EXPORT: Instead of just a mesh, the script must generate the actual print path (G1 moves) ${params.gcodeMode === 'layered'
+        ? `as flat layers of concentric closed perimeters that fill the ${params.wallThickness}mm wall, with travel moves between perimeters and the layer seam at ${params.seamAngle} degrees${params.seamPlacement === 'scattered' ? ' rotated by the golden angle every layer' : ''}`
+        : 'for a spiralized vase mode'}.${params.floorLayers > 0 ? ` Start with ${params.floorLayers} solid floor layers using ${params.floorPattern} infill clipped to the layer outline, overlapping the wall by ${params.floorOverlap}% of a bead width.` : ''}
        4. Implement a function to write a '.gcode' text file when 's' is pressed.
-       5. Printer Config: Type=${params.printerType}, Nozzle=${params.nozzleDiameter}mm, Speed=${params.printSpeed}mm/min.
+       5. Printer Config: Type=${printer.name} (${printer.kinematics}, ${printer.extruderType} extruder), Nozzle=${params.nozzleDiameter}mm, Speed=${params.printSpeed}mm/min.
        6. The visual sketch should visualize the toolpath points.`
     : `3. Implement a 'save' function to export a .${params.exportFormat} file when 's' is pressed.
        4. Use a standard library (like nervoussystem.obj for OBJ) or manual string writing if specific libraries are hard to assume present for ${params.exportFormat}.
        5. Ensure the mesh is solid/watertight. If Wall Thickness > 0, generate an inner and outer shell and connect them at the rim.`;
 
-  const imageInstruction = params.textureImage 
+  const activeModifiers = params.modifiers.filter(m => m.enabled);
+  const textureDepth = activeModifiers
+    .filter(m => m.type === 'texture')
+    .reduce((sum, m) => sum + m.depth, 0);
+
+  const imageInstruction = params.textureImage && textureDepth > 0
     ? `8. IMAGE INFLUENCE: The user has provided an image to influence the texture. 
        The script should try to load an image file named "texture.jpg" (or allow user selection) and use its brightness values to displace the mesh vertices, similar to a displacement map.
-       The displacement amount is ${params.textureInfluence}. Map the image UVs to the cylinder surface.`
+       The displacement amount is ${textureDepth}. Map the image UVs to the cylinder surface.`
     : '';
 
   const prompt = `
@@ -27,20 +63,21 @@ export const generateProcessingCode = async (params: VesselParams): Promise<Gene
     
     Create a complete, working Processing (Java) script based on the following parameters:
     - Base Radius: ${params.baseRadius}
+    - Silhouette Profile (normalized height -> radius multiplier of Base Radius, interpolate with a Catmull-Rom spline): ${params.profile.map(p => `${p.v.toFixed(2)}:${p.r.toFixed(2)}`).join(', ')}
     - Total Height: ${params.height}
     - Wall Thickness: ${params.wallThickness}
-    - Noise Amplitude (Scale): ${params.noiseScale}
-    - Noise Frequency: ${params.noiseFrequency}
+    - Cross-Section: ${describeSection(params.crossSection)}${params.rimCrossSection ? `, morphing linearly to ${describeSection(params.rimCrossSection)} at the rim` : ''} (scale the radius by the shape's polar radius function)
+    - Surface Modifiers (apply in this order, each only within its normalized height range):
+      ${activeModifiers.length ? activeModifiers.map(m => describeModifier(m, params.noiseSeed)).join('\n      ') : 'None'}
     - Number of Layers: ${params.layers}
     - Mesh Resolution (Segments around): ${params.segments}
-    - Twist Factor: ${params.twist}
     - Export Format: ${params.exportFormat.toUpperCase()}
-    ${isGcode ? `- Printer Settings: ${params.printerType} | Nozzle: ${params.nozzleDiameter}mm | Speed: ${params.printSpeed}mm/min` : ''}
-    ${params.textureImage ? `- Texture Influence: ${params.textureInfluence} (Use image brightness for displacement)` : ''}
+    ${isGcode ? `- Printer Settings: ${printer.name} | Nozzle: ${params.nozzleDiameter}mm | Speed: ${params.printSpeed}mm/min` : ''}
+    ${params.textureImage && textureDepth > 0 ? `- Texture Influence: ${textureDepth} (Use image brightness for displacement)` : ''}
 
     Requirements:
     1. Use a mesh generation approach.
-    2. Modify the vertex radius using Perlin noise or Sine waves based on the parameters provided.
+    2. Modify the vertex radius by applying the surface modifiers listed above in order.
     ${params.wallThickness > 0 ? "3. The vessel must be a solid object with thickness (not just a surface). Create a closed volume with an inner wall, outer wall, floor, and rim." : "3. Create a surface mesh (vase mode compatible)."}
     ${formatInstruction}
     ${imageInstruction}
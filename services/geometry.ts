@@ -0,0 +1,118 @@
+import { VesselParams, TextureData, PrinterProfile, ExportFormat } from '../types';
+import {
+  GeometryJobType, GeometryJobRequest, GeometryJobResult, WorkerRequest, WorkerResponse, runGeometryJob
+} from '../utils/geometryJobs';
+import { downloadFile, ExportProgress } from '../utils/exporters';
+
+interface PendingJob {
+  resolve: (result: GeometryJobResult<GeometryJobType>) => void;
+  reject: (err: Error) => void;
+  onProgress?: ExportProgress;
+}
+
+interface JobOptions {
+  // A new job on the same channel cancels the one still pending there
+  channel?: string;
+  onProgress?: ExportProgress;
+}
+
+const CANCELLED = 'CancelledJob';
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+const channels = new Map<string, number>();
+
+const cancelledError = () => {
+  const err = new Error('Superseded by a newer request');
+  err.name = CANCELLED;
+  return err;
+};
+
+const handleResponse = (message: WorkerResponse) => {
+  const job = pending.get(message.id);
+  if (!job) return; // Superseded; the caller has already moved on
+  switch (message.kind) {
+    case 'progress':
+      job.onProgress?.(message.fraction);
+      return;
+    case 'done':
+      pending.delete(message.id);
+      job.resolve(message.result);
+      return;
+    case 'cancelled':
+      pending.delete(message.id);
+      job.reject(cancelledError());
+      return;
+    case 'error':
+      pending.delete(message.id);
+      job.reject(new Error(message.message));
+      return;
+  }
+};
+
+const getWorker = () => {
+  if (!worker && typeof Worker !== 'undefined') {
+    worker = new Worker(new URL('./geometryWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleResponse(event.data);
+    worker.onerror = (event) => {
+      // A broken worker fails everything in flight; the next job starts a fresh one
+      console.error('Geometry worker failed', event.message);
+      pending.forEach(job => job.reject(new Error(event.message || 'Geometry worker failed')));
+      pending.clear();
+      channels.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+/** True for the rejection a job gets when a newer job on its channel replaces it. */
+export const isCancelledJob = (err: unknown) => err instanceof Error && err.name === CANCELLED;
+
+/**
+ * Runs a geometry job off the main thread. Results come back as transferred
+ * typed arrays. Without worker support the job runs inline instead.
+ */
+export const requestGeometry = <T extends GeometryJobType>(
+  type: T,
+  payload: GeometryJobRequest<T>,
+  { channel, onProgress }: JobOptions = {}
+): Promise<GeometryJobResult<T>> => {
+  const target = getWorker();
+  if (!target) return runGeometryJob(type, payload, onProgress);
+
+  const id = nextId++;
+  if (channel) {
+    const previous = channels.get(channel);
+    const stale = previous !== undefined ? pending.get(previous) : undefined;
+    if (previous !== undefined && stale) {
+      pending.delete(previous);
+      stale.reject(cancelledError());
+      target.postMessage({ kind: 'cancel', id: previous } satisfies WorkerRequest);
+    }
+    channels.set(channel, id);
+  }
+
+  return new Promise<GeometryJobResult<T>>((resolve, reject) => {
+    pending.set(id, {
+      resolve: resolve as PendingJob['resolve'],
+      reject,
+      onProgress,
+    });
+    target.postMessage({ kind: 'run', id, type, payload } satisfies WorkerRequest);
+  });
+};
+
+export const exportByType = async (
+  type: ExportFormat,
+  params: VesselParams,
+  printer: PrinterProfile,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+) => {
+  const file = await requestGeometry('export', { format: type, params, printer, textureData }, { onProgress });
+  downloadFile(file.parts, file.filename, file.mimeType);
+  onProgress(1);
+};
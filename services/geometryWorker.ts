@@ -0,0 +1,54 @@
+/// <reference lib="webworker" />
+import { WorkerRequest, WorkerResponse, runGeometryJob, getTransferables } from '../utils/geometryJobs';
+
+// The DOM lib types the global `self` as a Window; inside the worker it is the worker scope
+declare const self: DedicatedWorkerGlobalScope;
+
+const queue: Extract<WorkerRequest, { kind: 'run' }>[] = [];
+const cancelled = new Set<number>();
+let draining = false;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, transfer);
+
+// Gives queued messages (new jobs and cancels) a chance to arrive
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Runs queued jobs one at a time. Before each job the worker yields, so a
+ * cancel sent while an earlier job was running drops the stale job unrun.
+ */
+const drain = async () => {
+  draining = true;
+  while (true) {
+    await nextTask();
+    const job = queue.shift();
+    if (!job) break;
+    if (cancelled.delete(job.id)) {
+      post({ kind: 'cancelled', id: job.id });
+      continue;
+    }
+    try {
+      const result = await runGeometryJob(job.type, job.payload, fraction => post({ kind: 'progress', id: job.id, fraction }));
+      if (cancelled.delete(job.id)) {
+        post({ kind: 'cancelled', id: job.id });
+      } else {
+        post({ kind: 'done', id: job.id, result }, getTransferables(job.type, result));
+      }
+    } catch (err) {
+      post({ kind: 'error', id: job.id, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  // Every job received so far has run; leftover cancels are for finished jobs
+  cancelled.clear();
+  draining = false;
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message.kind === 'cancel') {
+    cancelled.add(message.id);
+    return;
+  }
+  queue.push(message);
+  if (!draining) drain();
+};
@@ -1,26 +1,213 @@
-export type ExportFormat = 'obj' | 'stl' | 'ply' | 'gcode';
-export type PrinterType = 'marlin' | 'wasp' | 'potterbot';
+export type ExportFormat = 'obj' | 'stl' | 'ply' | '3mf' | 'glb' | 'gcode';
+export type BedShape = 'rectangular' | 'circular';
+export type OriginConvention = 'center' | 'front-left';
+export type Kinematics = 'cartesian' | 'delta';
+export type ExtruderType = 'filament' | 'ram' | 'auger';
+export type GcodeMode = 'spiral' | 'layered';
+export type SeamPlacement = 'aligned' | 'scattered';
+export type FloorPattern = 'concentric' | 'rectilinear';
+export type LayerTimeMode = 'warn' | 'slow';
+export type AnalysisMode = 'none' | 'overhang' | 'layerTime' | 'stability' | 'mesh';
+
+export interface ProfilePoint {
+  v: number; // Normalized height, 0 (foot) to 1 (rim)
+  r: number; // Radius multiplier applied to baseRadius
+}
+
+export type CrossSectionKind = 'circle' | 'polygon' | 'superellipse' | 'star' | 'petal' | 'outline';
+
+export interface OutlinePoint {
+  x: number;
+  y: number;
+}
+
+export interface CrossSection {
+  kind: CrossSectionKind;
+  sides: number; // Polygon sides, star points or petal count
+  rounding: number; // Polygon corner rounding, 0 (sharp) to 1 (circle)
+  exponent: number; // Superellipse exponent (2 = ellipse, higher = squarer)
+  depth: number; // Star / petal notch depth, 0 to 1
+  aspect: number; // Y stretch applied to any shape
+  rotation: number; // Degrees
+  outline: OutlinePoint[]; // Closed outline for 'outline' kind
+}
+
+export type NoiseType = 'perlin' | 'simplex';
+
+export type ModifierType = 'noise' | 'ripple' | 'twist' | 'texture' | 'ridges' | 'facets' | 'bulge';
+
+interface ModifierBase {
+  id: string;
+  enabled: boolean;
+  // Normalized height range the modifier acts on
+  vStart: number;
+  vEnd: number;
+}
+
+export interface NoiseModifier extends ModifierBase {
+  type: 'noise';
+  noiseType: NoiseType;
+  amplitude: number; // mm
+  scale: number; // Feature size in mm
+  octaves: number;
+  lacunarity: number;
+  persistence: number;
+  seedOffset: number; // Added to VesselParams.noiseSeed so stacked noise layers differ
+  verticalStretch: number; // Pattern height over its size around the wall; 1 unless scaled for shrinkage
+}
+
+export interface RippleModifier extends ModifierBase {
+  type: 'ripple';
+  amplitude: number; // mm
+  frequency: number;
+  verticalStretch: number; // Wave length up the wall over the designed one; 1 unless scaled for shrinkage
+}
+
+export interface TwistModifier extends ModifierBase {
+  type: 'twist';
+  amount: number; // Radians of phase rotation over the full height
+}
+
+export interface TextureModifier extends ModifierBase {
+  type: 'texture';
+  depth: number; // mm displacement at full image brightness
+}
+
+export interface RidgesModifier extends ModifierBase {
+  type: 'ridges';
+  count: number;
+  depth: number; // mm
+  sharpness: number;
+}
+
+export interface FacetsModifier extends ModifierBase {
+  type: 'facets';
+  count: number;
+  strength: number; // 0 = round, 1 = fully flat facets
+}
+
+export interface BulgeModifier extends ModifierBase {
+  type: 'bulge';
+  center: number; // Normalized height of the band
+  width: number; // Normalized half-width of the band
+  amount: number; // mm, negative pinches in
+}
+
+export type SurfaceModifier =
+  | NoiseModifier
+  | RippleModifier
+  | TwistModifier
+  | TextureModifier
+  | RidgesModifier
+  | FacetsModifier
+  | BulgeModifier;
 
 export interface VesselParams {
   height: number;
   baseRadius: number;
-  noiseScale: number;
-  noiseFrequency: number;
+  // Silhouette curve, sorted by v
+  profile: ProfilePoint[];
+  // Horizontal shape; morphs to rimCrossSection over the height when set
+  crossSection: CrossSection;
+  rimCrossSection: CrossSection | null;
   layers: number;
-  twist: number;
   segments: number;
   wallThickness: number;
+  designForFiredSize: boolean; // Height, radii and wall are fired sizes; prints are scaled up
   exportFormat: ExportFormat;
-  // Texture / Image Influence
+  exportBinary: boolean; // STL and PLY as binary instead of ASCII
+  exportTexture: boolean; // Bake the uploaded image into OBJ/GLB as a colour texture
+  exportObjMaterial: boolean; // Zip the OBJ with an MTL material instead of a plain .obj
+  // Surface modifiers, evaluated in order
+  modifiers: SurfaceModifier[];
+  noiseSeed: number; // Integer seed shared by all noise modifiers
+  // Texture / Image Influence (applied by 'texture' modifiers)
   textureImage: string | null; // Base64 string
-  textureInfluence: number; // 0 to 50mm displacement
   // Printer Settings
-  printerType: PrinterType;
+  printerProfileId: string;
   nozzleDiameter: number;
   filamentDiameter: number;
   printSpeed: number; // mm/min
+  gcodeMode: GcodeMode;
+  seamPlacement: SeamPlacement; // Layered mode only
+  seamAngle: number; // Degrees, where aligned seams (and scattering) start
+  floorLayers: number; // Solid bottom layers, 0 = open bottom
+  floorPattern: FloorPattern;
+  floorOverlap: number; // % of a bead width the floor infill reaches into the wall
+  minLayerTime: number; // Seconds the clay needs before the next layer, 0 = off
+  layerTimeMode: LayerTimeMode; // Flag fast layers, or slow them down in the G-code
+  // Clay body: a library material, or customMaterial when materialId is 'custom'
+  materialId: string;
+  customMaterial: ClayMaterial;
+  // Placement on the bed, relative to bed centre
+  bedOffsetX: number; // mm
+  bedOffsetY: number; // mm
+  bedRotation: number; // Degrees about the vessel axis
 }
 
+export interface ClayMaterial {
+  id: string;
+  name: string;
+  wetDensity: number; // g/cm³, as extruded
+  waterContent: number; // % of wet weight
+  dryingShrinkage: number; // % linear, wet to bone dry
+  firingShrinkage: number; // % linear, dry to fired
+  verticalShrinkageRatio: number; // Shrinkage in height relative to across (printed layers settle)
+  layerHeightRatio: number; // Recommended layer height / nozzle diameter
+  maxOverhangAngle: number; // Degrees from vertical the clay holds without support
+  extrusionMultiplier: number; // Scales E in the G-code
+  yieldStress: number; // Pa, freshly extruded (green strength model)
+  stiffeningRate: number; // Pa/min gained while the wall stands
+}
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  bedShape: BedShape;
+  bedWidth: number; // mm along X (diameter for circular beds)
+  bedDepth: number; // mm along Y (ignored for circular beds)
+  maxHeight: number; // mm
+  origin: OriginConvention; // Where X0 Y0 sits on the bed
+  kinematics: Kinematics;
+  extruderType: ExtruderType;
+  startGcode: string; // Template with {variable} placeholders
+  endGcode: string;
+  retractLength: number; // mm of E, 0 disables retraction
+  retractSpeed: number; // mm/min
+  maxPrintSpeed: number; // mm/min, caps printSpeed
+  maxTravelSpeed: number; // mm/min
+  maxAcceleration: number; // mm/s², used by the print time estimate
+  junctionDeviation: number; // mm, how fast corners are taken
+}
+
+// One straight move parsed from G-code, in printer space (mm, Z up).
+// It starts where the previous move ended (or at Toolpath.origin).
+export interface ToolpathMove {
+  x: number;
+  y: number;
+  z: number;
+  e: number; // Absolute extruder position after the move
+  extrude: boolean; // True when filament advanced during the move
+  feed: number; // mm/min
+  layer: number; // Index into Toolpath.layers
+  line: number; // 1-based source line
+}
+
+export interface Toolpath {
+  origin: { x: number; y: number; z: number };
+  moves: ToolpathMove[];
+  layers: number[]; // Z height of each layer
+  // Extent of the extrusion moves
+  bounds: { minX: number; maxX: number; minY: number; maxY: number; minZ: number; maxZ: number };
+  lineCount: number;
+}
+
+// What the toolpath viewer shows: our own export (kept in sync with params) or an imported file
+export type ToolpathSource =
+  | { kind: 'generated' }
+  | { kind: 'file'; name: string; toolpath: Toolpath };
+
 export interface TextureData {
   data: Uint8Array;
   width: number;
@@ -40,7 +227,9 @@ export enum ViewMode {
 export interface PrintStats {
   estimatedTime: number; // minutes
   filamentLength: number; // meters
-  filamentWeight: number; // grams (assuming clay density)
+  filamentWeight: number; // grams of wet clay
+  dryWeight: number; // grams once bone dry
   layerHeight: number; // mm
   totalLayers: number;
+  layerTimes: number[]; // seconds per printed layer
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { VesselParams, TextureData, PrinterProfile } from '../types';
+import { calculateVesselPoint } from './geometry';
+
+// Clearance above the vessel used by the end G-code safety lift ({safeZ})
+export const SAFETY_LIFT = 20;
+
+// Rows sampled up the vessel when measuring the footprint
+const FOOTPRINT_ROWS = 60;
+
+export interface BedIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Maps a point in vessel space (centred on the vessel axis, printer XY) to
+ * bed-centred coordinates using the placement rotation and offset.
+ */
+export const placeOnBed = (params: VesselParams, x: number, y: number) => {
+  const angle = (params.bedRotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: x * cos - y * sin + params.bedOffsetX,
+    y: x * sin + y * cos + params.bedOffsetY,
+  };
+};
+
+/**
+ * Maps bed-centred coordinates to machine coordinates for the printer's origin
+ * convention. Corner-origin machines have X0 Y0 at the front-left of the bed.
+ */
+export const toMachineXY = (printer: PrinterProfile, x: number, y: number) => {
+  if (printer.origin === 'front-left') {
+    const depth = printer.bedShape === 'circular' ? printer.bedWidth : printer.bedDepth;
+    return { x: x + printer.bedWidth / 2, y: y + depth / 2 };
+  }
+  return { x, y };
+};
+
+/** Bounding box and furthest radius of the placed vessel, bed-centred. */
+export const measureFootprint = (params: VesselParams, textureData: TextureData | null) => {
+  const { segments } = params;
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity, maxRadius = 0;
+
+  for (let row = 0; row <= FOOTPRINT_ROWS; row++) {
+    const v = row / FOOTPRINT_ROWS;
+    for (let s = 0; s < segments; s++) {
+      const p = calculateVesselPoint(params, s / segments, v, 0, 0, 1, textureData);
+      // Mesh Z is Printer Y
+      const placed = placeOnBed(params, p.x, p.z);
+      minX = Math.min(minX, placed.x);
+      maxX = Math.max(maxX, placed.x);
+      minY = Math.min(minY, placed.y);
+      maxY = Math.max(maxY, placed.y);
+      maxRadius = Math.max(maxRadius, Math.hypot(placed.x, placed.y));
+    }
+  }
+  return { minX, maxX, minY, maxY, maxRadius };
+};
+
+/**
+ * Checks that the placed vessel fits the printer's build volume.
+ * Errors block G-code export; warnings are advisory.
+ */
+export const checkBedFit = (
+  params: VesselParams,
+  printer: PrinterProfile,
+  textureData: TextureData | null = null
+): BedIssue[] => {
+  const issues: BedIssue[] = [];
+  const footprint = measureFootprint(params, textureData);
+  // Half a bead extends past the toolpath centreline
+  const bead = params.nozzleDiameter / 2;
+
+  if (printer.bedShape === 'circular') {
+    const radius = printer.bedWidth / 2;
+    const reach = footprint.maxRadius + bead;
+    if (reach > radius) {
+      issues.push({
+        severity: 'error',
+        message: `Vessel reaches ${reach.toFixed(1)}mm from bed centre; the Ø${printer.bedWidth}mm bed allows ${radius.toFixed(1)}mm.`,
+      });
+    }
+  } else {
+    const halfW = printer.bedWidth / 2;
+    const halfD = printer.bedDepth / 2;
+    if (footprint.minX - bead < -halfW || footprint.maxX + bead > halfW) {
+      issues.push({
+        severity: 'error',
+        message: `Vessel spans X ${(footprint.minX - bead).toFixed(1)} to ${(footprint.maxX + bead).toFixed(1)}mm from centre; the bed is ${printer.bedWidth}mm wide.`,
+      });
+    }
+    if (footprint.minY - bead < -halfD || footprint.maxY + bead > halfD) {
+      issues.push({
+        severity: 'error',
+        message: `Vessel spans Y ${(footprint.minY - bead).toFixed(1)} to ${(footprint.maxY + bead).toFixed(1)}mm from centre; the bed is ${printer.bedDepth}mm deep.`,
+      });
+    }
+  }
+
+  if (params.height > printer.maxHeight) {
+    issues.push({
+      severity: 'error',
+      message: `Height ${params.height}mm exceeds the printer's ${printer.maxHeight}mm build height.`,
+    });
+  } else if (params.height + SAFETY_LIFT > printer.maxHeight) {
+    issues.push({
+      severity: 'error',
+      message: `The ${SAFETY_LIFT}mm safety lift after printing needs ${params.height + SAFETY_LIFT}mm; the printer reaches ${printer.maxHeight}mm.`,
+    });
+  }
+
+  if (printer.kinematics === 'delta' && printer.bedShape !== 'circular') {
+    issues.push({
+      severity: 'warning',
+      message: 'Delta printers usually have a circular build area; check the bed shape in the profile.',
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,220 @@
+import { CrossSection, CrossSectionKind, OutlinePoint, VesselParams } from '../types';
+
+export const CROSS_SECTION_LABELS: Record<CrossSectionKind, string> = {
+  circle: 'Circle',
+  polygon: 'Polygon',
+  superellipse: 'Squircle',
+  star: 'Star',
+  petal: 'Petal',
+  outline: 'Outline',
+};
+
+export const createCrossSection = (kind: CrossSectionKind = 'circle'): CrossSection => ({
+  kind,
+  sides: 4,
+  rounding: 0.2,
+  exponent: 4,
+  depth: 0.3,
+  aspect: 1,
+  rotation: 0,
+  outline: [],
+});
+
+/*
+ * Every shape is described by its polar radius function f(theta), scaled so
+ * that the profile radius keeps a sensible meaning:
+ * - polygon: flat faces touch the radius (inradius = 1), corners stick out
+ * - superellipse: axis extremes touch the radius
+ * - star / petal / outline: the outermost points touch the radius
+ * Shapes therefore have to be star-shaped around the vessel axis, which is
+ * also what a single radial wall toolpath can print.
+ */
+
+const TWO_PI = Math.PI * 2;
+
+// Angle within a repeating sector of width `sector`, centred on 0
+const sectorAngle = (theta: number, sector: number) =>
+  ((((theta + sector / 2) % sector) + sector) % sector) - sector / 2;
+
+const polygonRadius = (theta: number, sides: number, rounding: number): number => {
+  const n = Math.max(3, Math.round(sides));
+  const half = Math.PI / n;
+  const delta = Math.abs(sectorAngle(theta, half * 2));
+  const rho = Math.min(1, Math.max(0, rounding));
+
+  // Rounded polygon = smaller polygon (inradius 1 - rho) grown by a circle of radius rho
+  const halfEdge = (1 - rho) * Math.tan(half);
+  if (Math.tan(delta) <= halfEdge) return 1 / Math.cos(delta);
+
+  // Ray hits the corner arc
+  const cornerDist = (1 - rho) / Math.cos(half);
+  const gamma = half - delta;
+  const along = cornerDist * Math.cos(gamma);
+  const perp = cornerDist * Math.sin(gamma);
+  return along + Math.sqrt(Math.max(0, rho * rho - perp * perp));
+};
+
+const superellipseRadius = (theta: number, exponent: number): number => {
+  const n = Math.max(0.5, exponent);
+  return Math.pow(
+    Math.pow(Math.abs(Math.cos(theta)), n) + Math.pow(Math.abs(Math.sin(theta)), n),
+    -1 / n
+  );
+};
+
+const starRadius = (theta: number, points: number, depth: number): number => {
+  const n = Math.max(2, Math.round(points));
+  const half = Math.PI / n;
+  const delta = Math.abs(sectorAngle(theta, half * 2));
+  const inner = 1 - Math.min(0.95, Math.max(0, depth));
+
+  // Intersect ray with the straight edge from outer tip (1, 0) to inner notch
+  const ex = inner * Math.cos(half) - 1;
+  const ey = inner * Math.sin(half);
+  return ey / (Math.cos(delta) * ey - Math.sin(delta) * ex);
+};
+
+const petalRadius = (theta: number, petals: number, depth: number): number => {
+  const n = Math.max(2, Math.round(petals));
+  return 1 - Math.min(0.95, Math.max(0, depth)) * (0.5 - 0.5 * Math.cos(n * theta));
+};
+
+// Outline polar tables are cached per outline array
+const OUTLINE_SAMPLES = 720;
+const outlineCache = new WeakMap<OutlinePoint[], Float32Array>();
+
+/**
+ * Converts an arbitrary closed outline into a polar lookup table.
+ * The outline is centred on its area centroid and scaled so the furthest point
+ * sits at radius 1. For each angle the outermost edge crossing is used, so
+ * pockets that fold back behind themselves are filled in.
+ */
+const buildOutlineTable = (outline: OutlinePoint[]): Float32Array => {
+  const table = new Float32Array(OUTLINE_SAMPLES).fill(1);
+  if (outline.length < 3) return table;
+
+  // Area centroid (shoelace)
+  let area = 0, cx = 0, cy = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(area) < 1e-9) return table;
+  cx /= 3 * area;
+  cy /= 3 * area;
+
+  const pts = outline.map(p => ({ x: p.x - cx, y: p.y - cy }));
+
+  let maxR = 0;
+  for (let s = 0; s < OUTLINE_SAMPLES; s++) {
+    const angle = (s / OUTLINE_SAMPLES) * TWO_PI;
+    const dx = Math.cos(angle), dy = Math.sin(angle);
+    let best = 0;
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[i];
+      const b = pts[(i + 1) % pts.length];
+      const ex = b.x - a.x, ey = b.y - a.y;
+      const denom = dx * ey - dy * ex;
+      if (Math.abs(denom) < 1e-12) continue;
+      const t = (a.x * ey - a.y * ex) / denom;
+      const u = (a.x * dy - a.y * dx) / denom;
+      if (t > best && u >= 0 && u <= 1) best = t;
+    }
+    table[s] = best;
+    maxR = Math.max(maxR, best);
+  }
+
+  if (maxR > 0) {
+    for (let s = 0; s < OUTLINE_SAMPLES; s++) table[s] = Math.max(table[s] / maxR, 0.05);
+  }
+  return table;
+};
+
+const outlineRadius = (theta: number, outline: OutlinePoint[]): number => {
+  let table = outlineCache.get(outline);
+  if (!table) {
+    table = buildOutlineTable(outline);
+    outlineCache.set(outline, table);
+  }
+  const pos = ((((theta / TWO_PI) % 1) + 1) % 1) * OUTLINE_SAMPLES;
+  const i0 = Math.floor(pos) % OUTLINE_SAMPLES;
+  const i1 = (i0 + 1) % OUTLINE_SAMPLES;
+  const t = pos - Math.floor(pos);
+  return table[i0] * (1 - t) + table[i1] * t;
+};
+
+const baseShapeRadius = (section: CrossSection, theta: number): number => {
+  switch (section.kind) {
+    case 'polygon': return polygonRadius(theta, section.sides, section.rounding);
+    case 'superellipse': return superellipseRadius(theta, section.exponent);
+    case 'star': return starRadius(theta, section.sides, section.depth);
+    case 'petal': return petalRadius(theta, section.sides, section.depth);
+    case 'outline': return outlineRadius(theta, section.outline);
+    case 'circle':
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Polar radius of a cross-section at angle theta (radians), relative to the
+ * profile radius. Rotation (degrees) and aspect (Y stretch) are applied on top
+ * of the base shape.
+ */
+export const sectionRadius = (section: CrossSection, theta: number): number => {
+  const angle = theta - (section.rotation * Math.PI) / 180;
+  const aspect = Math.max(0.1, section.aspect);
+  if (section.kind === 'circle' && aspect === 1) return 1;
+  if (aspect === 1) return baseShapeRadius(section, angle);
+
+  // Find the angle in the unstretched shape that lands on `angle` after
+  // stretching Y by `aspect`, then measure the stretched point's length.
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const base = Math.atan2(s / aspect, c);
+  const f = baseShapeRadius(section, base);
+  return f * Math.hypot(Math.cos(base), aspect * Math.sin(base));
+};
+
+/**
+ * Cross-section scale at a point on the vessel. Blends linearly from the
+ * foot section to the rim section over the height when a rim section is set.
+ */
+export const crossSectionScale = (params: VesselParams, theta: number, v: number): number => {
+  const foot = sectionRadius(params.crossSection, theta);
+  if (!params.rimCrossSection) return foot;
+  const rim = sectionRadius(params.rimCrossSection, theta);
+  const t = Math.min(1, Math.max(0, v));
+  return foot * (1 - t) + rim * t;
+};
+
+/**
+ * Parses a closed outline from text. Accepts one "x,y" / "x y" pair per line,
+ * or an SVG document / snippet containing a <polygon> or <polyline> points list.
+ */
+export const parseOutline = (text: string): OutlinePoint[] => {
+  const pointsAttr = text.match(/<poly(?:gon|line)[^>]*\spoints\s*=\s*["']([^"']+)["']/i);
+  const source = pointsAttr ? pointsAttr[1] : text;
+
+  const numbers = (source.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+  const points: OutlinePoint[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+
+  // Drop explicit closing point
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first.x === last.x && first.y === last.y) points.pop();
+  }
+
+  if (points.length < 3) {
+    throw new Error('Outline needs at least 3 points');
+  }
+  return points;
+};
@@ -0,0 +1,46 @@
+import { VesselParams } from '../types';
+import { PROFILE_PRESETS } from './profile';
+import { createModifier } from './modifiers';
+import { createCrossSection } from './crossSection';
+import { DEFAULT_MATERIAL, CUSTOM_MATERIAL_ID } from './materials';
+
+/** The design a new session starts with; also fills fields missing from older files. */
+export const INITIAL_PARAMS: VesselParams = {
+  height: 150,
+  baseRadius: 40,
+  profile: PROFILE_PRESETS.vase.map(p => ({ ...p })),
+  crossSection: createCrossSection('circle'),
+  rimCrossSection: null,
+  layers: 150,
+  segments: 120,
+  wallThickness: 2,
+  designForFiredSize: false,
+  exportFormat: 'obj',
+  exportBinary: true,
+  exportTexture: false,
+  exportObjMaterial: false,
+  printerProfileId: 'marlin',
+  nozzleDiameter: 1.2,
+  filamentDiameter: 1.75,
+  printSpeed: 1200,
+  gcodeMode: 'spiral',
+  seamPlacement: 'aligned',
+  seamAngle: 0,
+  floorLayers: 3,
+  floorPattern: 'concentric',
+  floorOverlap: 25,
+  minLayerTime: 20,
+  layerTimeMode: 'warn',
+  materialId: DEFAULT_MATERIAL.id,
+  customMaterial: { ...DEFAULT_MATERIAL, id: CUSTOM_MATERIAL_ID, name: 'Custom' },
+  bedOffsetX: 0,
+  bedOffsetY: 0,
+  bedRotation: 0,
+  modifiers: [
+    createModifier('texture'),
+    createModifier('twist'),
+    createModifier('noise'),
+  ],
+  noiseSeed: 1337,
+  textureImage: null,
+};
@@ -0,0 +1,19 @@
+import { VesselParams } from '../types';
+import { readZip } from './zip';
+import { migrateParams } from './project';
+import { clampParams } from './paramLimits';
+
+// Where 3MF exports keep the design, next to the thumbnail. Slicers ignore
+// unknown files under Metadata/, the same way they keep their own configs there.
+export const DESIGN_METADATA_PATH = 'Metadata/ceramicflow.json';
+
+/**
+ * The design parameters embedded in a 3MF exported by this app, upgraded from
+ * whichever version wrote them and clamped to the editor's ranges.
+ */
+export const readDesignFrom3MF = async (buffer: ArrayBuffer): Promise<VesselParams> => {
+  const files = await readZip(buffer);
+  const design = files.get(DESIGN_METADATA_PATH);
+  if (!design) throw new Error('This 3MF has no CeramicFlow design embedded');
+  return clampParams(migrateParams(JSON.parse(new TextDecoder().decode(design))));
+};
@@ -1,8 +1,33 @@
-import { VesselParams, TextureData } from '../types';
-import { generateVesselMesh, calculateVesselPoint } from './geometry';
+import { VesselParams, TextureData, PrinterProfile, ExportFormat } from '../types';
+import { generateVesselMesh, computeSmoothNormals } from './geometry';
+import { generateGCODE } from './gcode';
+import { createZip, textChunks } from './zip';
+import { renderThumbnail, encodePNG } from './thumbnail';
+import { DESIGN_METADATA_PATH } from './designFile';
+import { greenParams } from './shrinkage';
 
-export const downloadFile = (content: string, filename: string, mimeType: string) => {
-  const blob = new Blob([content], { type: mimeType });
+// Lines (or triangles) written between yields to the browser
+const CHUNK_SIZE = 20000;
+
+// Mesh space is Y-up; 3MF build space is Z-up. Row-major 3x4 matrix as 3MF
+// writes it: mesh x -> X, mesh y -> Z, mesh z -> -Y (keeps the winding)
+const Y_UP_TO_Z_UP = '1 0 0 0 0 1 0 -1 0 0 0 0';
+
+/** Called with the fraction of the export written so far (0..1). */
+export type ExportProgress = (fraction: number) => void;
+
+/** A finished export, ready for downloadFile. ArrayBuffer parts are transferable. */
+export interface ExportFile {
+  parts: (string | ArrayBuffer)[];
+  filename: string;
+  mimeType: string;
+}
+
+// Yields between chunks so progress messages (and cancels) get through
+const nextFrame = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const downloadFile = (content: BlobPart | BlobPart[], filename: string, mimeType: string) => {
+  const blob = new Blob(Array.isArray(content) ? content : [content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -13,194 +38,463 @@ export const downloadFile = (content: string, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 };
 
-export const exportOBJ = (params: VesselParams, textureData: TextureData | null = null) => {
-  const { vertices, indices } = generateVesselMesh(params, textureData);
-  let obj = `# CeramicFlow AI Export\n# Vertices: ${vertices.length / 3}\n# Faces: ${indices.length / 3}\no vessel\n`;
-  
-  for (let i = 0; i < vertices.length; i += 3) {
-    obj += `v ${vertices[i].toFixed(4)} ${vertices[i + 1].toFixed(4)} ${vertices[i + 2].toFixed(4)}\n`;
-  }
-  
-  for (let i = 0; i < indices.length; i += 3) {
-    // OBJ indices are 1-based
-    obj += `f ${indices[i] + 1} ${indices[i + 1] + 1} ${indices[i + 2] + 1}\n`;
+/**
+ * Writes `count` lines in chunks: each chunk is joined into one string and
+ * handed to the Blob as its own part, so no single giant string is ever built.
+ */
+const writeLines = async (
+  parts: string[],
+  count: number,
+  line: (i: number) => string,
+  onProgress: ExportProgress,
+  from: number,
+  to: number
+) => {
+  for (let start = 0; start < count; start += CHUNK_SIZE) {
+    const end = Math.min(count, start + CHUNK_SIZE);
+    const lines = new Array<string>(end - start);
+    for (let i = start; i < end; i++) lines[i - start] = line(i);
+    parts.push(lines.join('\n') + '\n');
+    onProgress(from + (to - from) * (end / count));
+    await nextFrame();
   }
-  
-  downloadFile(obj, 'vessel.obj', 'text/plain');
 };
 
-export const exportSTL = (params: VesselParams, textureData: TextureData | null = null) => {
-   const { vertices, indices } = generateVesselMesh(params, textureData);
-   let stl = "solid vessel\n";
-   
-   for (let i = 0; i < indices.length; i += 3) {
-     const i1 = indices[i] * 3;
-     const i2 = indices[i + 1] * 3;
-     const i3 = indices[i + 2] * 3;
-     
-     const v1 = { x: vertices[i1], y: vertices[i1+1], z: vertices[i1+2] };
-     const v2 = { x: vertices[i2], y: vertices[i2+1], z: vertices[i2+2] };
-     const v3 = { x: vertices[i3], y: vertices[i3+1], z: vertices[i3+2] };
-     
-     // Calculate normal (simple cross product)
-     const u = { x: v2.x - v1.x, y: v2.y - v1.y, z: v2.z - v1.z };
-     const v = { x: v3.x - v1.x, y: v3.y - v1.y, z: v3.z - v1.z };
-     const nx = u.y * v.z - u.z * v.y;
-     const ny = u.z * v.x - u.x * v.z;
-     const nz = u.x * v.y - u.y * v.x;
-     // Normalize
-     const len = Math.sqrt(nx*nx + ny*ny + nz*nz) || 1;
-     
-     stl += `facet normal ${(nx/len).toFixed(4)} ${(ny/len).toFixed(4)} ${(nz/len).toFixed(4)}\n`;
-     stl += "  outer loop\n";
-     stl += `    vertex ${v1.x.toFixed(4)} ${v1.y.toFixed(4)} ${v1.z.toFixed(4)}\n`;
-     stl += `    vertex ${v2.x.toFixed(4)} ${v2.y.toFixed(4)} ${v2.z.toFixed(4)}\n`;
-     stl += `    vertex ${v3.x.toFixed(4)} ${v3.y.toFixed(4)} ${v3.z.toFixed(4)}\n`;
-     stl += "  endloop\n";
-     stl += "endfacet\n";
-   }
-   
-   stl += "endsolid vessel\n";
-   downloadFile(stl, 'vessel.stl', 'text/plain');
+// Unit normal of triangle t, written into out
+const faceNormal = (vertices: Float32Array, indices: ArrayLike<number>, t: number, out: number[]) => {
+  const i1 = indices[t * 3] * 3;
+  const i2 = indices[t * 3 + 1] * 3;
+  const i3 = indices[t * 3 + 2] * 3;
+  const ux = vertices[i2] - vertices[i1], uy = vertices[i2 + 1] - vertices[i1 + 1], uz = vertices[i2 + 2] - vertices[i1 + 2];
+  const vx = vertices[i3] - vertices[i1], vy = vertices[i3 + 1] - vertices[i1 + 1], vz = vertices[i3 + 2] - vertices[i1 + 2];
+  const nx = uy * vz - uz * vy;
+  const ny = uz * vx - ux * vz;
+  const nz = ux * vy - uy * vx;
+  const len = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+  out[0] = nx / len;
+  out[1] = ny / len;
+  out[2] = nz / len;
 };
 
-export const exportPLY = (params: VesselParams, textureData: TextureData | null = null) => {
-  const { vertices, indices } = generateVesselMesh(params, textureData);
+// Clay material shared by the GLB and MTL exports, matching the preview
+const CLAY_COLOR = [210, 186, 176]; // #d2bab0
+const CLAY_ROUGHNESS = 0.6;
+const CLAY_METALNESS = 0.1;
+
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+
+interface EmbeddedImage {
+  mimeType: 'image/png' | 'image/jpeg';
+  extension: 'png' | 'jpg';
+  bytes: Uint8Array;
+}
+
+// The uploaded texture (a PNG or JPEG data URL) as raw bytes, when it should be baked in
+const getBakedTexture = (params: VesselParams): EmbeddedImage | null => {
+  if (!params.exportTexture || !params.textureImage) return null;
+  const match = /^data:(image\/png|image\/jpeg);base64,(.*)$/.exec(params.textureImage);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return match[1] === 'image/png'
+    ? { mimeType: 'image/png', extension: 'png', bytes }
+    : { mimeType: 'image/jpeg', extension: 'jpg', bytes };
+};
+
+/**
+ * OBJ with smooth normals (vn) and cylindrical UVs (vt). With exportObjMaterial
+ * it is zipped with an MTL holding the clay material (and the baked texture).
+ */
+export const buildOBJ = async (
+  params: VesselParams,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+): Promise<ExportFile> => {
+  const { vertices, uvs, indices } = generateVesselMesh(params, textureData);
+  const normals = computeSmoothNormals(vertices, indices);
+  const withMaterial = params.exportObjMaterial;
   const vertexCount = vertices.length / 3;
   const faceCount = indices.length / 3;
-  
-  let ply = "ply\n";
-  ply += "format ascii 1.0\n";
-  ply += `element vertex ${vertexCount}\n`;
-  ply += "property float x\n";
-  ply += "property float y\n";
-  ply += "property float z\n";
-  ply += `element face ${faceCount}\n`;
-  ply += "property list uchar int vertex_index\n";
-  ply += "end_header\n";
-  
-  for (let i = 0; i < vertices.length; i += 3) {
-    ply += `${vertices[i].toFixed(4)} ${vertices[i+1].toFixed(4)} ${vertices[i+2].toFixed(4)}\n`;
+  const parts = [`# CeramicFlow AI Export\n# Vertices: ${vertexCount}\n# Faces: ${faceCount}\n${withMaterial ? 'mtllib vessel.mtl\n' : ''}o vessel\n`];
+
+  await writeLines(parts, vertexCount, i =>
+    `v ${vertices[i * 3].toFixed(4)} ${vertices[i * 3 + 1].toFixed(4)} ${vertices[i * 3 + 2].toFixed(4)}`,
+    onProgress, 0, 0.3);
+  await writeLines(parts, vertexCount, i =>
+    `vt ${uvs[i * 2].toFixed(5)} ${uvs[i * 2 + 1].toFixed(5)}`,
+    onProgress, 0.3, 0.45);
+  await writeLines(parts, vertexCount, i =>
+    `vn ${normals[i * 3].toFixed(4)} ${normals[i * 3 + 1].toFixed(4)} ${normals[i * 3 + 2].toFixed(4)}`,
+    onProgress, 0.45, 0.6);
+  if (withMaterial) parts.push('usemtl clay\n');
+  // OBJ indices are 1-based; position, UV and normal share one index
+  await writeLines(parts, faceCount, i => {
+    const a = indices[i * 3] + 1, b = indices[i * 3 + 1] + 1, c = indices[i * 3 + 2] + 1;
+    return `f ${a}/${a}/${a} ${b}/${b}/${b} ${c}/${c}/${c}`;
+  }, onProgress, 0.6, 0.95);
+
+  if (!withMaterial) {
+    onProgress(1);
+    return { parts, filename: 'vessel.obj', mimeType: 'text/plain' };
+  }
+
+  const texture = getBakedTexture(params);
+  const [r, g, b] = CLAY_COLOR.map(c => (c / 255).toFixed(4));
+  const mtl = [
+    '# CeramicFlow AI Export',
+    'newmtl clay',
+    `Kd ${texture ? '1.0000 1.0000 1.0000' : `${r} ${g} ${b}`}`,
+    'Ka 0.0000 0.0000 0.0000',
+    'Ks 0.1000 0.1000 0.1000',
+    `Ns ${Math.round((1 - CLAY_ROUGHNESS) * 100)}`,
+    'd 1.0',
+    'illum 2',
+    // PBR extension read by Blender and most renderers
+    `Pr ${CLAY_ROUGHNESS}`,
+    `Pm ${CLAY_METALNESS}`,
+    ...(texture ? [`map_Kd vessel_texture.${texture.extension}`] : []),
+  ].join('\n') + '\n';
+
+  const archive = createZip([
+    { name: 'vessel.obj', data: textChunks(parts) },
+    { name: 'vessel.mtl', data: textChunks([mtl]) },
+    ...(texture ? [{ name: `vessel_texture.${texture.extension}`, data: [texture.bytes] }] : []),
+  ]);
+  onProgress(1);
+
+  return { parts: [archive], filename: 'vessel-obj.zip', mimeType: 'application/zip' };
+};
+
+/**
+ * Binary glTF for renders: positions, smooth normals, cylindrical UVs and a
+ * PBR clay material (with the baked texture when enabled). glTF works in
+ * metres, so the node scales the millimetre mesh by 0.001.
+ */
+export const buildGLB = async (
+  params: VesselParams,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+): Promise<ExportFile> => {
+  const { vertices, uvs, indices } = generateVesselMesh(params, textureData);
+  const normals = computeSmoothNormals(vertices, indices);
+  onProgress(0.5);
+  await nextFrame();
+
+  const texture = getBakedTexture(params);
+  // glTF UVs start at the top of the image; v runs up from the foot
+  const texcoords = new Float32Array(uvs.length);
+  for (let i = 0; i < uvs.length; i += 2) {
+    texcoords[i] = uvs[i];
+    texcoords[i + 1] = 1 - uvs[i + 1];
+  }
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertices.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], vertices[i]);
+    max[i % 3] = Math.max(max[i % 3], vertices[i]);
   }
-  
-  for (let i = 0; i < indices.length; i += 3) {
-    ply += `3 ${indices[i]} ${indices[i+1]} ${indices[i+2]}\n`;
+
+  // Binary chunk: one buffer view per array, each 4-byte aligned
+  const views: Uint8Array[] = [
+    new Uint8Array(vertices.buffer, vertices.byteOffset, vertices.byteLength),
+    new Uint8Array(normals.buffer, normals.byteOffset, normals.byteLength),
+    new Uint8Array(texcoords.buffer, texcoords.byteOffset, texcoords.byteLength),
+    new Uint8Array(indices.buffer, indices.byteOffset, indices.byteLength),
+    ...(texture ? [texture.bytes] : []),
+  ];
+  const offsets: number[] = [];
+  let binLength = 0;
+  for (const view of views) {
+    offsets.push(binLength);
+    binLength += Math.ceil(view.byteLength / 4) * 4;
   }
-  
-  downloadFile(ply, 'vessel.ply', 'text/plain');
+
+  const vertexCount = vertices.length / 3;
+  const gltf = {
+    asset: { version: '2.0', generator: 'CeramicFlow AI' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: 'vessel', mesh: 0, scale: [0.001, 0.001, 0.001] }],
+    meshes: [{
+      name: 'vessel',
+      primitives: [{ attributes: { POSITION: 0, NORMAL: 1, TEXCOORD_0: 2 }, indices: 3, material: 0 }],
+    }],
+    materials: [{
+      name: 'Clay',
+      doubleSided: true,
+      pbrMetallicRoughness: {
+        baseColorFactor: texture ? [1, 1, 1, 1] : [...CLAY_COLOR.map(c => srgbToLinear(c / 255)), 1],
+        metallicFactor: CLAY_METALNESS,
+        roughnessFactor: CLAY_ROUGHNESS,
+        ...(texture ? { baseColorTexture: { index: 0 } } : {}),
+      },
+    }],
+    ...(texture ? {
+      // Wraps around the circumference, clamped at foot and rim like the displacement
+      samplers: [{ wrapS: 10497, wrapT: 33071 }],
+      textures: [{ sampler: 0, source: 0 }],
+      images: [{ bufferView: 4, mimeType: texture.mimeType }],
+    } : {}),
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: vertexCount, type: 'VEC3', min, max },
+      { bufferView: 1, componentType: 5126, count: vertexCount, type: 'VEC3' },
+      { bufferView: 2, componentType: 5126, count: vertexCount, type: 'VEC2' },
+      { bufferView: 3, componentType: indices instanceof Uint32Array ? 5125 : 5123, count: indices.length, type: 'SCALAR' },
+    ],
+    bufferViews: views.map((view, i) => ({
+      buffer: 0,
+      byteOffset: offsets[i],
+      byteLength: view.byteLength,
+      // Vertex data and indices; the image view has no target
+      ...(i < 3 ? { target: 34962 } : i === 3 ? { target: 34963 } : {}),
+    })),
+    buffers: [{ byteLength: binLength }],
+  };
+
+  // JSON chunk padded with spaces, binary chunk with zeros
+  const json = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = Math.ceil(json.length / 4) * 4;
+  const glb = new ArrayBuffer(12 + 8 + jsonLength + 8 + binLength);
+  const out = new DataView(glb);
+  const bytes = new Uint8Array(glb);
+  out.setUint32(0, 0x46546c67, true); // 'glTF'
+  out.setUint32(4, 2, true);
+  out.setUint32(8, glb.byteLength, true);
+  out.setUint32(12, jsonLength, true);
+  out.setUint32(16, 0x4e4f534a, true); // 'JSON'
+  bytes.set(json, 20);
+  bytes.fill(0x20, 20 + json.length, 20 + jsonLength);
+  const binStart = 20 + jsonLength;
+  out.setUint32(binStart, binLength, true);
+  out.setUint32(binStart + 4, 0x004e4942, true); // 'BIN'
+  views.forEach((view, i) => bytes.set(view, binStart + 8 + offsets[i]));
+  onProgress(1);
+
+  return { parts: [glb], filename: 'vessel.glb', mimeType: 'model/gltf-binary' };
 };
 
-const getHeader = (params: VesselParams, layerHeight: number) => {
-  const { printerType, nozzleDiameter, printSpeed } = params;
-  let header = `; CeramicFlow AI G-Code Export
-; Printer: ${printerType}
-; Nozzle: ${nozzleDiameter}mm
-; Layer Height: ${layerHeight.toFixed(3)}mm
-; Speed: ${printSpeed} mm/min
-G21 ; Millimeters
-G90 ; Absolute positioning
-M82 ; Absolute extrusion mode
-`;
-
-  switch (printerType) {
-    case 'wasp':
-      header += `G28 ; Home Delta
-G1 Z15 F${printSpeed} ; Move up
-M204 S500 ; Low acceleration for clay
-`;
-      break;
-    case 'potterbot':
-      header += `G28 ; Home
-G1 Z10 ; Lift
-G92 E0 ; Reset Extruder
-`;
-      break;
-    case 'marlin':
-    default:
-      header += `G28 ; Home
-G1 Z5 F${printSpeed} ; Lift nozzle
-`;
-      break;
+export const buildSTL = async (
+  params: VesselParams,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+): Promise<ExportFile> => {
+  const { vertices, indices } = generateVesselMesh(params, textureData);
+  const faceCount = indices.length / 3;
+  const n = [0, 0, 0];
+
+  if (params.exportBinary) {
+    // 80-byte header, uint32 triangle count, then 50 bytes per triangle:
+    // normal + 3 vertices as float32, and a uint16 attribute count
+    const buffer = new ArrayBuffer(84 + faceCount * 50);
+    const view = new DataView(buffer);
+    const header = 'CeramicFlow AI Export';
+    for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i));
+    view.setUint32(80, faceCount, true);
+
+    for (let start = 0; start < faceCount; start += CHUNK_SIZE) {
+      const end = Math.min(faceCount, start + CHUNK_SIZE);
+      for (let t = start; t < end; t++) {
+        let offset = 84 + t * 50;
+        faceNormal(vertices, indices, t, n);
+        view.setFloat32(offset, n[0], true);
+        view.setFloat32(offset + 4, n[1], true);
+        view.setFloat32(offset + 8, n[2], true);
+        offset += 12;
+        for (let k = 0; k < 3; k++) {
+          const v = indices[t * 3 + k] * 3;
+          view.setFloat32(offset, vertices[v], true);
+          view.setFloat32(offset + 4, vertices[v + 1], true);
+          view.setFloat32(offset + 8, vertices[v + 2], true);
+          offset += 12;
+        }
+        view.setUint16(offset, 0, true);
+      }
+      onProgress(end / faceCount);
+      await nextFrame();
+    }
+
+    return { parts: [buffer], filename: 'vessel.stl', mimeType: 'model/stl' };
   }
-  return header;
+
+  const vertex = (v: number) =>
+    `    vertex ${vertices[v * 3].toFixed(4)} ${vertices[v * 3 + 1].toFixed(4)} ${vertices[v * 3 + 2].toFixed(4)}`;
+  const parts = ['solid vessel\n'];
+  await writeLines(parts, faceCount, t => {
+    faceNormal(vertices, indices, t, n);
+    return `facet normal ${n[0].toFixed(4)} ${n[1].toFixed(4)} ${n[2].toFixed(4)}\n` +
+      '  outer loop\n' +
+      `${vertex(indices[t * 3])}\n${vertex(indices[t * 3 + 1])}\n${vertex(indices[t * 3 + 2])}\n` +
+      '  endloop\n' +
+      'endfacet';
+  }, onProgress, 0, 1);
+  parts.push('endsolid vessel\n');
+
+  return { parts, filename: 'vessel.stl', mimeType: 'text/plain' };
 };
 
-export const exportGCODE = (params: VesselParams, textureData: TextureData | null = null) => {
-  // Spiral vase mode GCode Generation
-  const { layers, segments, height, nozzleDiameter, filamentDiameter, printSpeed } = params;
-  
-  const layerHeight = height / layers;
-  let gcode = getHeader(params, layerHeight);
-  
-  // E calculation: Volume of cylinder segment = length * width * height
-  // E moves filament linear distance. Volume = E * FilamentArea
-  // E = (length * width * height) / FilamentArea
-  // Width assumed to be nozzle diameter for vase mode
-  const filamentArea = Math.PI * Math.pow(filamentDiameter / 2, 2);
-  const ePerMM = (nozzleDiameter * layerHeight) / filamentArea;
-  
-  let currentE = 0;
-  
-  // Move to start
-  const start = calculateVesselPoint(params, 0, 0, 0, 0, 1, textureData);
-  // Map coordinates: Mesh Y (up) -> GCode Z. Mesh Z -> GCode Y.
-  gcode += `\n; Start Loop\nG0 X${start.x.toFixed(3)} Y${start.z.toFixed(3)} Z${layerHeight.toFixed(3)} F${printSpeed}\n`;
-  
-  // Spiral loop
-  // We want a continuous spiral, so we iterate total steps = layers * segments
-  // This creates a smooth helix instead of stacked rings
-  const totalSteps = layers * segments;
-  
-  let prevX = start.x;
-  let prevY = start.z; 
-  let prevZ = layerHeight; // Start at first layer height
-  
-  for (let i = 1; i <= totalSteps; i++) {
-    // Normalized height (v) moves continuously from 0 to 1
-    const v = i / totalSteps;
-    
-    // Normalized circumference (u)
-    // We pass i/segments to calculateVesselPoint. calculateVesselPoint uses cos(u * 2PI).
-    // So as long as i increases, it wraps around naturally in the trig functions.
-    const u = i / segments; 
-    
-    const p = calculateVesselPoint(params, u, v, 0, 0, 1, textureData);
-    
-    const gx = p.x;
-    const gy = p.z; // Mesh Z is Printer Y
-    const gz = p.y; // Mesh Y is Printer Z
-    
-    // 3D Distance for extrusion
-    const dist = Math.sqrt(
-      Math.pow(gx - prevX, 2) + 
-      Math.pow(gy - prevY, 2) + 
-      Math.pow(gz - prevZ, 2)
-    );
-    
-    currentE += dist * ePerMM;
-    
-    gcode += `G1 X${gx.toFixed(3)} Y${gy.toFixed(3)} Z${gz.toFixed(3)} E${currentE.toFixed(4)}\n`;
-    
-    prevX = gx;
-    prevY = gy;
-    prevZ = gz;
+export const buildPLY = async (
+  params: VesselParams,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+): Promise<ExportFile> => {
+  const { vertices, indices } = generateVesselMesh(params, textureData);
+  const vertexCount = vertices.length / 3;
+  const faceCount = indices.length / 3;
+
+  const header = [
+    'ply',
+    `format ${params.exportBinary ? 'binary_little_endian' : 'ascii'} 1.0`,
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    `element face ${faceCount}`,
+    'property list uchar int vertex_index',
+    'end_header',
+  ].join('\n') + '\n';
+
+  if (params.exportBinary) {
+    // Vertices as 3 float32, faces as a uint8 count and 3 int32 indices
+    const vertexBytes = vertexCount * 12;
+    const buffer = new ArrayBuffer(vertexBytes + faceCount * 13);
+    const view = new DataView(buffer);
+    for (let i = 0; i < vertices.length; i++) view.setFloat32(i * 4, vertices[i], true);
+    onProgress(0.3);
+    await nextFrame();
+
+    for (let start = 0; start < faceCount; start += CHUNK_SIZE) {
+      const end = Math.min(faceCount, start + CHUNK_SIZE);
+      for (let t = start; t < end; t++) {
+        const offset = vertexBytes + t * 13;
+        view.setUint8(offset, 3);
+        view.setInt32(offset + 1, indices[t * 3], true);
+        view.setInt32(offset + 5, indices[t * 3 + 1], true);
+        view.setInt32(offset + 9, indices[t * 3 + 2], true);
+      }
+      onProgress(0.3 + 0.7 * (end / faceCount));
+      await nextFrame();
+    }
+
+    return { parts: [header, buffer], filename: 'vessel.ply', mimeType: 'application/octet-stream' };
   }
-  
-  // Footer
-  gcode += `\n; Footer\n`;
-  gcode += "G1 E-2 F2400 ; Retract\n";
-  gcode += `G1 Z${(params.height + 20).toFixed(2)} F${printSpeed} ; Move up safety\n`; 
-  gcode += "G28 X0 Y0 ; Home X Y\n";
-  gcode += "M30 ; End of program\n";
-  
-  downloadFile(gcode, 'vessel.gcode', 'text/plain');
+
+  const parts = [header];
+  await writeLines(parts, vertexCount, i =>
+    `${vertices[i * 3].toFixed(4)} ${vertices[i * 3 + 1].toFixed(4)} ${vertices[i * 3 + 2].toFixed(4)}`,
+    onProgress, 0, 0.5);
+  await writeLines(parts, faceCount, i =>
+    `3 ${indices[i * 3]} ${indices[i * 3 + 1]} ${indices[i * 3 + 2]}`,
+    onProgress, 0.5, 1);
+
+  return { parts, filename: 'vessel.ply', mimeType: 'text/plain' };
+};
+
+const escapeXML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 3MF package: the mesh in millimetres with a Z-up build transform, a
+ * thumbnail, and the full design parameters so the file can be reopened here.
+ * The mesh is the green (as printed) piece; the embedded design is as entered.
+ */
+export const build3MF = async (
+  params: VesselParams,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+): Promise<ExportFile> => {
+  const green = greenParams(params);
+  const { vertices, indices } = generateVesselMesh(green, textureData);
+  const vertexCount = vertices.length / 3;
+  const faceCount = indices.length / 3;
+
+  const model = [
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">\n' +
+    ' <metadata name="Title">CeramicFlow Vessel</metadata>\n' +
+    ' <metadata name="Application">CeramicFlow AI</metadata>\n' +
+    ` <metadata name="CreationDate">${new Date().toISOString().slice(0, 10)}</metadata>\n` +
+    ` <metadata name="Description">${escapeXML(`${green.height.toFixed(1)}mm tall, ${params.layers} layers, ${params.segments} segments`)}</metadata>\n` +
+    ' <resources>\n' +
+    '  <object id="1" type="model" name="vessel">\n' +
+    '   <mesh>\n' +
+    '    <vertices>\n',
+  ];
+  await writeLines(model, vertexCount, i =>
+    `     <vertex x="${vertices[i * 3].toFixed(4)}" y="${vertices[i * 3 + 1].toFixed(4)}" z="${vertices[i * 3 + 2].toFixed(4)}"/>`,
+    onProgress, 0, 0.4);
+  model.push('    </vertices>\n    <triangles>\n');
+  await writeLines(model, faceCount, i =>
+    `     <triangle v1="${indices[i * 3]}" v2="${indices[i * 3 + 1]}" v3="${indices[i * 3 + 2]}"/>`,
+    onProgress, 0.4, 0.8);
+  model.push(
+    '    </triangles>\n' +
+    '   </mesh>\n' +
+    '  </object>\n' +
+    ' </resources>\n' +
+    ' <build>\n' +
+    `  <item objectid="1" transform="${Y_UP_TO_Z_UP}"/>\n` +
+    ' </build>\n' +
+    '</model>\n'
+  );
+
+  const thumbnail = encodePNG(renderThumbnail(green, textureData));
+  onProgress(0.9);
+
+  const archive = createZip([
+    {
+      name: '[Content_Types].xml',
+      data: textChunks([
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\n' +
+        ' <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>\n' +
+        ' <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>\n' +
+        ' <Default Extension="png" ContentType="image/png"/>\n' +
+        ' <Default Extension="json" ContentType="application/json"/>\n' +
+        '</Types>\n',
+      ]),
+    },
+    {
+      name: '_rels/.rels',
+      data: textChunks([
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n' +
+        ' <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>\n' +
+        ' <Relationship Target="/Metadata/thumbnail.png" Id="rel1" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail"/>\n' +
+        '</Relationships>\n',
+      ]),
+    },
+    { name: '3D/3dmodel.model', data: textChunks(model) },
+    { name: 'Metadata/thumbnail.png', data: [thumbnail] },
+    { name: DESIGN_METADATA_PATH, data: textChunks([JSON.stringify(params, null, 2)]) },
+  ]);
+  onProgress(1);
+
+  return { parts: [archive], filename: 'vessel.3mf', mimeType: 'model/3mf' };
 };
 
-export const exportByType = (type: string, params: VesselParams, textureData: TextureData | null = null) => {
-  switch (type) {
-    case 'obj': exportOBJ(params, textureData); break;
-    case 'stl': exportSTL(params, textureData); break;
-    case 'ply': exportPLY(params, textureData); break;
-    case 'gcode': exportGCODE(params, textureData); break;
+export const buildGCODE = (params: VesselParams, printer: PrinterProfile, textureData: TextureData | null = null): ExportFile => ({
+  parts: [generateGCODE(params, printer, textureData)],
+  filename: 'vessel.gcode',
+  mimeType: 'text/plain',
+});
+
+export const buildExport = async (
+  format: ExportFormat,
+  params: VesselParams,
+  printer: PrinterProfile,
+  textureData: TextureData | null = null,
+  onProgress: ExportProgress = () => {}
+): Promise<ExportFile> => {
+  // Everything is written at the size it is printed; 3MF also keeps the design as entered
+  const green = greenParams(params);
+  switch (format) {
+    case 'obj': return buildOBJ(green, textureData, onProgress);
+    case 'stl': return buildSTL(green, textureData, onProgress);
+    case 'ply': return buildPLY(green, textureData, onProgress);
+    case '3mf': return build3MF(params, textureData, onProgress);
+    case 'glb': return buildGLB(green, textureData, onProgress);
+    case 'gcode': return buildGCODE(green, printer, textureData);
   }
-};
\ No newline at end of file
+};
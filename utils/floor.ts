@@ -0,0 +1,124 @@
+import { VesselParams, TextureData } from '../types';
+import { calculateVesselPoint } from './geometry';
+
+// A 2D polyline in printer XY, extruded as one continuous bead
+export interface FloorPath {
+  points: { x: number; y: number }[];
+}
+
+/**
+ * Toolpaths filling the floor inside the wall for one floor layer.
+ * `innerOffset` is the radial offset (negative, mm) of the inner edge of the
+ * wall beads on this layer; the infill starts there and reaches `floorOverlap`
+ * percent of a bead width back into the wall so the floor bonds to it.
+ */
+export const generateFloorPaths = (
+  params: VesselParams,
+  textureData: TextureData | null,
+  layerIndex: number,
+  innerOffset: number
+): FloorPath[] => {
+  const { layers, segments, height, nozzleDiameter, floorPattern, floorOverlap } = params;
+  const z = (layerIndex + 1) * (height / layers);
+  const v = z / height;
+  const width = nozzleDiameter;
+
+  // Radius of this layer's outline at each angle; the infill boundary is an inset of it
+  const boundary = innerOffset + (floorOverlap / 100) * width;
+  const radii: number[] = [];
+  for (let s = 0; s < segments; s++) {
+    radii.push(calculateVesselPoint(params, s / segments, v, 0, 0, 1, textureData).r + boundary);
+  }
+
+  return floorPattern === 'rectilinear'
+    ? rectilinearInfill(radii, width, layerIndex)
+    : concentricInfill(radii, width);
+};
+
+/**
+ * Closed loops stepping inwards one bead width at a time until the
+ * narrowest part of the outline would collapse.
+ */
+const concentricInfill = (radii: number[], width: number): FloorPath[] => {
+  const paths: FloorPath[] = [];
+  const minRadius = Math.min(...radii);
+
+  for (let inset = width / 2; minRadius - inset >= width / 2; inset += width) {
+    const points = radii.map((r, s) => {
+      const theta = (s / radii.length) * Math.PI * 2;
+      return { x: (r - inset) * Math.cos(theta), y: (r - inset) * Math.sin(theta) };
+    });
+    points.push(points[0]);
+    paths.push({ points });
+  }
+
+  return paths;
+};
+
+/**
+ * Parallel lines clipped to the outline, alternating between +45 and -45
+ * degrees on consecutive layers. Lines run back and forth to keep travels short.
+ */
+const rectilinearInfill = (radii: number[], width: number, layerIndex: number): FloorPath[] => {
+  const angle = (layerIndex % 2 === 0 ? 1 : -1) * Math.PI / 4;
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+
+  // Outline rotated so the infill lines run along X
+  const polygon = radii.map((r, s) => {
+    const theta = (s / radii.length) * Math.PI * 2;
+    const x = r * Math.cos(theta);
+    const y = r * Math.sin(theta);
+    return { x: x * cos - y * sin, y: x * sin + y * cos };
+  });
+
+  const minY = Math.min(...polygon.map(p => p.y));
+  const maxY = Math.max(...polygon.map(p => p.y));
+
+  // Rotate back into printer space
+  const unrotate = (x: number, y: number) => ({ x: x * cos + y * sin, y: -x * sin + y * cos });
+
+  const paths: FloorPath[] = [];
+  let row = 0;
+  for (let y = minY + width / 2; y <= maxY - width / 2 + 1e-6; y += width, row++) {
+    const crossings: number[] = [];
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % polygon.length];
+      if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+        crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    const segments: FloorPath[] = [];
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      // Pull line ends in by half a bead so they stop at the boundary
+      const x1 = crossings[i] + width / 2;
+      const x2 = crossings[i + 1] - width / 2;
+      if (x2 - x1 < width / 2) continue;
+      segments.push({ points: [unrotate(x1, y), unrotate(x2, y)] });
+    }
+
+    // Boustrophedon: every other row runs the opposite way
+    if (row % 2 === 1) {
+      segments.reverse();
+      segments.forEach(seg => seg.points.reverse());
+    }
+    paths.push(...segments);
+  }
+  return paths;
+};
+
+/** Total extruded length of a set of floor paths, in mm. */
+export const floorPathLength = (paths: FloorPath[]): number => {
+  let length = 0;
+  for (const path of paths) {
+    for (let i = 1; i < path.points.length; i++) {
+      const a = path.points[i - 1];
+      const b = path.points[i];
+      length += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+  }
+  return length;
+};
@@ -0,0 +1,297 @@
+import { VesselParams, TextureData, PrinterProfile } from '../types';
+import { calculateVesselPoint, getPerimeterLayout } from './geometry';
+import { generateFloorPaths } from './floor';
+import { applyTemplate, TemplateVariables } from './printerProfiles';
+import { placeOnBed, toMachineXY, SAFETY_LIFT } from './bedCheck';
+import { resolveMaterial } from './materials';
+
+// A point in printer space (Z up). Mesh Y (up) -> GCode Z. Mesh Z -> GCode Y.
+interface PathPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// A continuous extruded polyline
+interface ExtrusionPath {
+  points: PathPoint[];
+  width: number; // Bead width in mm
+}
+
+interface LayerPlan {
+  z: number; // Nominal layer top
+  paths: ExtrusionPath[];
+}
+
+// Golden angle as a fraction of a turn; spreads scattered seams evenly
+const SCATTER_STEP = 0.381966;
+
+const toPrinter = (p: { x: number; y: number; z: number }): PathPoint => ({ x: p.x, y: p.z, z: p.y });
+
+const distance = (a: PathPoint, b: PathPoint) =>
+  Math.sqrt(Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2) + Math.pow(b.z - a.z, 2));
+
+// Travels shorter than this are not worth a retraction
+const MIN_RETRACT_TRAVEL = 2;
+
+// Minimum layer time never slows a layer below this feed (mm/min)
+const MIN_SLOWDOWN_FEED = 60;
+
+const getTemplateVariables = (params: VesselParams, printer: PrinterProfile, layerHeight: number): TemplateVariables => ({
+  printerName: printer.name,
+  nozzleDiameter: params.nozzleDiameter,
+  filamentDiameter: params.filamentDiameter,
+  layerHeight: layerHeight.toFixed(3),
+  totalLayers: params.layers,
+  printSpeed: getPrintSpeed(params, printer),
+  travelSpeed: printer.maxTravelSpeed,
+  height: params.height.toFixed(2),
+  safeZ: (params.height + SAFETY_LIFT).toFixed(2),
+  bedWidth: printer.bedWidth,
+  bedDepth: printer.bedDepth,
+  retractLength: printer.retractLength,
+  retractSpeed: printer.retractSpeed,
+});
+
+/** Feed rate actually written for extrusion moves: the design speed capped by the printer. */
+export const getPrintSpeed = (params: VesselParams, printer: PrinterProfile) =>
+  Math.min(params.printSpeed, printer.maxPrintSpeed);
+
+const getHeader = (params: VesselParams, printer: PrinterProfile, variables: TemplateVariables) => {
+  const { nozzleDiameter, gcodeMode } = params;
+  const material = resolveMaterial(params);
+  return `; CeramicFlow AI G-Code Export
+; Printer: ${printer.name} (${printer.kinematics}, ${printer.extruderType} extruder)
+; Mode: ${gcodeMode}
+; Nozzle: ${nozzleDiameter}mm
+; Clay: ${material.name} (extrusion x${material.extrusionMultiplier})
+; Layer Height: ${variables.layerHeight}mm
+; Speed: ${variables.printSpeed} mm/min
+; Min Layer Time: ${params.minLayerTime > 0 ? `${params.minLayerTime}s (${params.layerTimeMode})` : 'off'}
+; Placement: X${params.bedOffsetX} Y${params.bedOffsetY} R${params.bedRotation}deg, origin ${printer.origin}
+G21 ; Millimeters
+G90 ; Absolute positioning
+M82 ; Absolute extrusion mode
+${applyTemplate(printer.startGcode, variables).trim()}
+G92 E0 ; Reset Extruder
+`;
+};
+
+const getFloorLayerCount = (params: VesselParams) =>
+  Math.min(params.layers, Math.max(0, Math.round(params.floorLayers)));
+
+// Floor infill for one layer, lifted to the layer's Z
+const planFloor = (
+  params: VesselParams,
+  textureData: TextureData | null,
+  layerIndex: number,
+  z: number,
+  innerOffset: number
+): ExtrusionPath[] =>
+  generateFloorPaths(params, textureData, layerIndex, innerOffset).map(path => ({
+    points: path.points.map(p => ({ x: p.x, y: p.y, z })),
+    width: params.nozzleDiameter,
+  }));
+
+// Closed loop around the layer at a radial offset, starting at seamU
+const planLoop = (
+  params: VesselParams,
+  textureData: TextureData | null,
+  seamU: number,
+  v: number,
+  z: number,
+  offset: number
+): PathPoint[] => {
+  const points: PathPoint[] = [];
+  for (let s = 0; s <= params.segments; s++) {
+    const p = toPrinter(calculateVesselPoint(params, seamU + s / params.segments, v, offset, 0, 1, textureData));
+    p.z = z;
+    points.push(p);
+  }
+  return points;
+};
+
+/**
+ * Spiral vase mode: flat floor layers (one perimeter plus infill), then one
+ * continuous helix on the outer surface. Each revolution is reported as one
+ * layer so per-layer tools can reason about it.
+ */
+const planSpiral = (params: VesselParams, textureData: TextureData | null): LayerPlan[] => {
+  const { layers, segments, height, nozzleDiameter } = params;
+  const layerHeight = height / layers;
+  const floorLayers = getFloorLayerCount(params);
+
+  const plan: LayerPlan[] = [];
+  for (let layer = 0; layer < floorLayers; layer++) {
+    const z = (layer + 1) * layerHeight;
+    const perimeter = planLoop(params, textureData, 0, z / height, z, 0);
+    plan.push({
+      z,
+      paths: [
+        { points: perimeter, width: nozzleDiameter },
+        ...planFloor(params, textureData, layer, z, -nozzleDiameter / 2),
+      ],
+    });
+  }
+
+  // We want a continuous spiral, so we iterate total steps = layers * segments
+  // This creates a smooth helix instead of stacked rings
+  const totalSteps = layers * segments;
+  const firstStep = floorLayers * segments;
+
+  // Start at first layer height when there is no floor, otherwise on top of it
+  const start = toPrinter(calculateVesselPoint(params, firstStep / segments, firstStep / totalSteps, 0, 0, 1, textureData));
+  if (floorLayers === 0) start.z = layerHeight;
+
+  let last = start;
+  for (let layer = floorLayers; layer < layers; layer++) {
+    // Each revolution continues from where the previous one ended
+    const points: PathPoint[] = [last];
+    for (let s = 1; s <= segments; s++) {
+      const i = layer * segments + s;
+      // Normalized height (v) moves continuously from 0 to 1.
+      // u = i/segments keeps increasing; calculateVesselPoint wraps it naturally in the trig functions.
+      const p = calculateVesselPoint(params, i / segments, i / totalSteps, 0, 0, 1, textureData);
+      points.push(toPrinter(p));
+    }
+    last = points[points.length - 1];
+    plan.push({ z: (layer + 1) * layerHeight, paths: [{ points, width: nozzleDiameter }] });
+  }
+  return plan;
+};
+
+/**
+ * Layered mode: flat layers, each with concentric closed perimeters from the
+ * outer surface inwards so the printed wall is wallThickness wide. The first
+ * floorLayers layers are filled inside the perimeters.
+ */
+const planLayered = (params: VesselParams, textureData: TextureData | null): LayerPlan[] => {
+  const { layers, height, seamAngle, seamPlacement } = params;
+  const layerHeight = height / layers;
+  const floorLayers = getFloorLayerCount(params);
+  const { count, width } = getPerimeterLayout(params);
+
+  const plan: LayerPlan[] = [];
+  for (let layer = 0; layer < layers; layer++) {
+    const z = (layer + 1) * layerHeight;
+    const v = z / height;
+
+    // Seam: fixed angle keeps it in one tidy line, scattering hides it
+    const seamU = seamAngle / 360 + (seamPlacement === 'scattered' ? layer * SCATTER_STEP : 0);
+
+    const paths: ExtrusionPath[] = [];
+    for (let perimeter = 0; perimeter < count; perimeter++) {
+      // Bead centre sits half a width inside the previous bead
+      const offset = -(width / 2 + perimeter * width);
+      paths.push({ points: planLoop(params, textureData, seamU, v, z, offset), width });
+    }
+    if (layer < floorLayers) {
+      paths.push(...planFloor(params, textureData, layer, z, -count * width));
+    }
+    plan.push({ z, paths });
+  }
+  return plan;
+};
+
+// Extruded length of one planned layer, in mm
+const layerPathLength = (layer: LayerPlan) => {
+  let length = 0;
+  for (const path of layer.paths) {
+    for (let i = 1; i < path.points.length; i++) length += distance(path.points[i - 1], path.points[i]);
+  }
+  return length;
+};
+
+/**
+ * Feed rate per layer. In 'slow' mode, layers that would finish faster than
+ * minLayerTime at the print speed are slowed so they take minLayerTime.
+ */
+const getLayerFeeds = (plan: LayerPlan[], params: VesselParams, printSpeed: number): number[] =>
+  plan.map(layer => {
+    if (params.layerTimeMode !== 'slow' || params.minLayerTime <= 0) return printSpeed;
+    const seconds = (layerPathLength(layer) / printSpeed) * 60;
+    if (seconds >= params.minLayerTime) return printSpeed;
+    return Math.max(MIN_SLOWDOWN_FEED, Math.floor(printSpeed * (seconds / params.minLayerTime)));
+  });
+
+/**
+ * Generates the complete G-code program for the current design on the given printer.
+ */
+export const generateGCODE = (
+  params: VesselParams,
+  printer: PrinterProfile,
+  textureData: TextureData | null = null
+): string => {
+  const { layers, height, filamentDiameter } = params;
+
+  const layerHeight = height / layers;
+  const variables = getTemplateVariables(params, printer, layerHeight);
+  const printSpeed = getPrintSpeed(params, printer);
+  const { retractLength, retractSpeed, maxTravelSpeed } = printer;
+  let gcode = getHeader(params, printer, variables);
+
+  const plan = params.gcodeMode === 'layered'
+    ? planLayered(params, textureData)
+    : planSpiral(params, textureData);
+
+  // E calculation: Volume of bead segment = length * width * height
+  // E moves filament linear distance. Volume = E * FilamentArea
+  // E = (length * width * height) / FilamentArea, scaled by the clay's extrusion multiplier
+  const filamentArea = Math.PI * Math.pow(filamentDiameter / 2, 2);
+  const { extrusionMultiplier } = resolveMaterial(params);
+
+  // Plans are centred on the vessel axis; place them on the bed, then shift
+  // into the machine's coordinate frame. Rigid moves keep all lengths intact.
+  const coords = (p: PathPoint) => {
+    const placed = placeOnBed(params, p.x, p.y);
+    const machine = toMachineXY(printer, placed.x, placed.y);
+    return `X${machine.x.toFixed(3)} Y${machine.y.toFixed(3)} Z${p.z.toFixed(3)}`;
+  };
+
+  const layerFeeds = getLayerFeeds(plan, params, printSpeed);
+
+  let currentE = 0;
+  let position: PathPoint | null = null;
+  // Last F written; travel and retract moves change it, so extrusions restore it when needed
+  let currentFeed = 0;
+
+  plan.forEach((layer, layerIndex) => {
+    const layerFeed = layerFeeds[layerIndex];
+    gcode += `\n; Layer ${layerIndex + 1} Z${layer.z.toFixed(3)}\n`;
+    if (layerFeed < printSpeed) {
+      gcode += `; Slowed to F${layerFeed} for min layer time ${params.minLayerTime}s\n`;
+    }
+
+    for (const path of layer.paths) {
+      const ePerMM = (path.width * layerHeight * extrusionMultiplier) / filamentArea;
+      const [first, ...rest] = path.points;
+
+      // Travel only when the path does not continue from where we are
+      if (!position || distance(position, first) > 0.01) {
+        const retract = position !== null && retractLength > 0 && distance(position, first) > MIN_RETRACT_TRAVEL;
+        if (retract) gcode += `G1 E${(currentE - retractLength).toFixed(4)} F${retractSpeed} ; Retract\n`;
+        gcode += `G0 ${coords(first)} F${maxTravelSpeed}\n`;
+        if (retract) gcode += `G1 E${currentE.toFixed(4)} F${retractSpeed} ; Unretract\n`;
+        currentFeed = retract ? retractSpeed : maxTravelSpeed;
+      }
+      position = first;
+
+      for (const p of rest) {
+        currentE += distance(position, p) * ePerMM;
+        const feed = currentFeed !== layerFeed ? ` F${layerFeed}` : '';
+        currentFeed = layerFeed;
+        gcode += `G1 ${coords(p)} E${currentE.toFixed(4)}${feed}\n`;
+        position = p;
+      }
+    }
+  });
+
+  // Footer
+  gcode += `\n; Footer\n`;
+  if (retractLength > 0) {
+    gcode += `G1 E${(currentE - retractLength).toFixed(4)} F${retractSpeed} ; Retract\n`;
+  }
+  gcode += `${applyTemplate(printer.endGcode, variables).trim()}\n`;
+
+  return gcode;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { parseGCODE } from './gcodeParser';
+
+describe('parseGCODE', () => {
+  it('reads absolute moves and marks extrusion', () => {
+    const toolpath = parseGCODE([
+      'G90',
+      'G1 X10 Y0 Z0.5 F1200',
+      'G1 X20 Y0 E1',
+      'G0 X20 Y10',
+    ].join('\n'));
+
+    expect(toolpath.moves.map(m => [m.x, m.y, m.z, m.extrude])).toEqual([
+      [10, 0, 0.5, false],
+      [20, 0, 0.5, true],
+      [20, 10, 0.5, false],
+    ]);
+    expect(toolpath.moves[1].feed).toBe(1200);
+    expect(toolpath.moves[1].line).toBe(3);
+    expect(toolpath.lineCount).toBe(4);
+  });
+
+  it('handles relative positioning, relative E, inches and G92', () => {
+    const toolpath = parseGCODE([
+      'G1 X10 Y10 Z1',
+      'G91',
+      'G1 X5 E1',
+      'G90',
+      'M83',
+      'G1 X20 E1',
+      'G92 X0 E0',
+      'M82',
+      'G20',
+      'G1 X1 E0.1',
+    ].join('\n'));
+
+    const [, a, b, c] = toolpath.moves;
+    expect([a.x, a.e]).toEqual([15, 1]);
+    expect([b.x, b.e]).toEqual([20, 2]);
+    expect(c.x).toBeCloseTo(25.4);
+    expect(c.e).toBeCloseTo(2.54);
+  });
+
+  it('ignores comments and treats extruder-only moves as retracts', () => {
+    const toolpath = parseGCODE([
+      'G1 X10 Z1 ; travel',
+      'G1 E-1 (retract)',
+      'G1 X20 E0',
+    ].join('\n'));
+
+    expect(toolpath.moves).toHaveLength(2);
+    expect(toolpath.moves[1].extrude).toBe(true);
+    expect(toolpath.moves[1].e).toBe(0);
+  });
+
+  it('splits arcs into chords that end on the programmed point', () => {
+    // Counter-clockwise half circle of radius 10 around (10, 0)
+    const toolpath = parseGCODE(['G1 X0 Y0 Z1', 'G3 X20 Y0 I10 J0 E5'].join('\n'));
+    const arc = toolpath.moves.slice(1);
+
+    expect(arc.length).toBeGreaterThan(10);
+    for (const move of arc) expect(Math.hypot(move.x - 10, move.y)).toBeCloseTo(10);
+    expect(arc.every(move => move.y <= 1e-9)).toBe(true);
+    const end = arc[arc.length - 1];
+    expect([end.x, end.y, end.e]).toEqual([20, 0, 5]);
+  });
+
+  it('matches the I/J form with the R form', () => {
+    const ij = parseGCODE(['G1 X0 Y0 Z1', 'G2 X20 Y0 I10 J0 E5'].join('\n')).moves;
+    const r = parseGCODE(['G1 X0 Y0 Z1', 'G2 X20 Y0 R10 E5'].join('\n')).moves;
+
+    expect(r).toHaveLength(ij.length);
+    r.forEach((move, i) => {
+      expect(move.x).toBeCloseTo(ij[i].x);
+      expect(move.y).toBeCloseTo(ij[i].y);
+    });
+  });
+
+  it('starts layers at layer comments when the file has them', () => {
+    const toolpath = parseGCODE([
+      '; Layer 0',
+      'G1 X0 Y0 Z0.5',
+      'G1 X10 E1',
+      'G1 X10 Y10 Z0.6 E2', // Spiral climb stays on the commented layer
+      '; Layer 1',
+      'G1 X0 E3',
+    ].join('\n'));
+
+    expect(toolpath.layers).toEqual([0.5, 0.6]);
+    expect(toolpath.moves.filter(m => m.extrude).map(m => m.layer)).toEqual([0, 0, 1]);
+  });
+
+  it('starts layers at flat extrusions above the last layer without comments', () => {
+    const toolpath = parseGCODE([
+      'G1 X0 Y0 Z0.5',
+      'G1 X10 E1',
+      'G1 Z1',
+      'G1 X0 E2',
+      'G1 X10 E3',
+    ].join('\n'));
+
+    expect(toolpath.layers).toEqual([0.5, 1]);
+    expect(toolpath.moves.filter(m => m.extrude).map(m => m.layer)).toEqual([0, 1, 1]);
+  });
+
+  it('measures bounds over extrusion moves only', () => {
+    const toolpath = parseGCODE([
+      'G0 X-50 Y-50 Z5',
+      'G1 X0 Y0 Z0.5',
+      'G1 X10 Y5 E1',
+    ].join('\n'));
+
+    expect(toolpath.bounds).toEqual({ minX: 0, maxX: 10, minY: 0, maxY: 5, minZ: 0.5, maxZ: 0.5 });
+    expect(parseGCODE('G0 X10 Y10').bounds.maxX).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { Toolpath, ToolpathMove } from '../types';
+
+// Arcs are split into chords no longer than this (mm)
+const ARC_SEGMENT_LENGTH = 1;
+// Extruder advances smaller than this are treated as noise
+const E_EPSILON = 1e-5;
+const Z_EPSILON = 1e-4;
+
+interface ParserState {
+  x: number;
+  y: number;
+  z: number;
+  e: number;
+  feed: number;
+  absolute: boolean; // G90 / G91
+  absoluteE: boolean; // M82 / M83
+  unitScale: number; // G21 = 1, G20 = 25.4
+}
+
+type Words = Partial<Record<string, number>>;
+
+// Strips ";" and "( )" comments
+const stripComment = (line: string) => line.replace(/\(.*?\)/g, '').split(';')[0].trim();
+
+// Layer markers written by common slicers, including our own "; Layer N"
+const LAYER_COMMENT = /^;\s*(layer\s+\d+|layer:|layer_change)/i;
+
+const parseWords = (code: string): Words => {
+  const words: Words = {};
+  const pattern = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code.toUpperCase())) !== null) {
+    words[match[1]] = Number(match[2]);
+  }
+  return words;
+};
+
+/**
+ * Parses G-code into straight moves. Supports G0/G1 moves, G2/G3 arcs (I/J or
+ * R form, split into chords), G90/G91, G92, M82/M83, G20/G21 and G28 homing.
+ * Unknown commands are ignored.
+ *
+ * Layers follow layer comments when the file has them; otherwise a new layer
+ * starts at each flat extrusion above the current layer.
+ */
+export const parseGCODE = (text: string): Toolpath => {
+  const lines = text.split(/\r?\n/);
+  const hasLayerComments = lines.some(line => LAYER_COMMENT.test(line.trim()));
+
+  const state: ParserState = { x: 0, y: 0, z: 0, e: 0, feed: 0, absolute: true, absoluteE: true, unitScale: 1 };
+  const moves: ToolpathMove[] = [];
+  const layers: number[] = [];
+  let layer = -1;
+  let pendingLayer = false;
+
+  const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity, minZ: Infinity, maxZ: -Infinity };
+
+  const origin = { x: 0, y: 0, z: 0 };
+
+  const addMove = (x: number, y: number, z: number, e: number, line: number) => {
+    if (moves.length === 0) {
+      origin.x = state.x;
+      origin.y = state.y;
+      origin.z = state.z;
+    }
+    const extrude = e - state.e > E_EPSILON;
+
+    if (extrude) {
+      const startsLayer = hasLayerComments
+        ? pendingLayer
+        : layer < 0 || (Math.abs(z - state.z) < Z_EPSILON && z > layers[layer] + Z_EPSILON);
+      if (startsLayer || layer < 0) {
+        layers.push(z);
+        layer = layers.length - 1;
+        pendingLayer = false;
+      }
+      bounds.minX = Math.min(bounds.minX, state.x, x);
+      bounds.maxX = Math.max(bounds.maxX, state.x, x);
+      bounds.minY = Math.min(bounds.minY, state.y, y);
+      bounds.maxY = Math.max(bounds.maxY, state.y, y);
+      bounds.minZ = Math.min(bounds.minZ, state.z, z);
+      bounds.maxZ = Math.max(bounds.maxZ, state.z, z);
+    }
+
+    moves.push({ x, y, z, e, extrude, feed: state.feed, layer: Math.max(0, layer), line });
+    state.x = x;
+    state.y = y;
+    state.z = z;
+    state.e = e;
+  };
+
+  // Resolves an axis word against the current position and positioning mode
+  const target = (words: Words, axis: 'X' | 'Y' | 'Z', current: number) => {
+    const value = words[axis];
+    if (value === undefined) return current;
+    const mm = value * state.unitScale;
+    return state.absolute ? mm : current + mm;
+  };
+
+  const targetE = (words: Words) => {
+    const value = words.E;
+    if (value === undefined) return state.e;
+    const mm = value * state.unitScale;
+    return state.absoluteE ? mm : state.e + mm;
+  };
+
+  // Arc in the XY plane, optionally helical in Z
+  const addArc = (words: Words, clockwise: boolean, line: number) => {
+    const x = target(words, 'X', state.x);
+    const y = target(words, 'Y', state.y);
+    const z = target(words, 'Z', state.z);
+    const e = targetE(words);
+
+    let cx: number;
+    let cy: number;
+    if (words.R !== undefined) {
+      // Radius form: centre lies on the perpendicular bisector of the chord
+      const r = words.R * state.unitScale;
+      const dx = x - state.x;
+      const dy = y - state.y;
+      const chord = Math.hypot(dx, dy);
+      if (chord === 0) return;
+      const h = Math.sqrt(Math.max(0, r * r - (chord / 2) * (chord / 2)));
+      // Negative R selects the long way round
+      const side = (clockwise ? 1 : -1) * (r < 0 ? -1 : 1);
+      cx = state.x + dx / 2 + (side * h * dy) / chord;
+      cy = state.y + dy / 2 - (side * h * dx) / chord;
+    } else {
+      cx = state.x + (words.I ?? 0) * state.unitScale;
+      cy = state.y + (words.J ?? 0) * state.unitScale;
+    }
+
+    const radius = Math.hypot(state.x - cx, state.y - cy);
+    const startAngle = Math.atan2(state.y - cy, state.x - cx);
+    let sweep = Math.atan2(y - cy, x - cx) - startAngle;
+    if (clockwise && sweep >= 0) sweep -= Math.PI * 2;
+    if (!clockwise && sweep <= 0) sweep += Math.PI * 2;
+
+    const steps = Math.max(1, Math.ceil((Math.abs(sweep) * radius) / ARC_SEGMENT_LENGTH));
+    const start = { z: state.z, e: state.e };
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const angle = startAngle + sweep * t;
+      // Land exactly on the programmed end point
+      const px = i === steps ? x : cx + radius * Math.cos(angle);
+      const py = i === steps ? y : cy + radius * Math.sin(angle);
+      addMove(px, py, start.z + (z - start.z) * t, start.e + (e - start.e) * t, line);
+    }
+  };
+
+  lines.forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const trimmed = raw.trim();
+    if (LAYER_COMMENT.test(trimmed)) pendingLayer = true;
+
+    const code = stripComment(trimmed);
+    if (!code) return;
+    const words = parseWords(code);
+    if (words.F !== undefined) state.feed = words.F * state.unitScale;
+
+    const g = words.G;
+    const m = words.M;
+
+    if (g === 0 || g === 1) {
+      const x = target(words, 'X', state.x);
+      const y = target(words, 'Y', state.y);
+      const z = target(words, 'Z', state.z);
+      const e = targetE(words);
+      // Extruder-only moves (retracts) change E but draw nothing
+      if (x === state.x && y === state.y && z === state.z) {
+        state.e = e;
+        return;
+      }
+      addMove(x, y, z, e, lineNumber);
+    } else if (g === 2 || g === 3) {
+      addArc(words, g === 2, lineNumber);
+    } else if (g === 90) {
+      state.absolute = true;
+      state.absoluteE = true;
+    } else if (g === 91) {
+      state.absolute = false;
+      state.absoluteE = false;
+    } else if (g === 92) {
+      // Set position without moving
+      if (words.X !== undefined) state.x = words.X * state.unitScale;
+      if (words.Y !== undefined) state.y = words.Y * state.unitScale;
+      if (words.Z !== undefined) state.z = words.Z * state.unitScale;
+      if (words.E !== undefined) state.e = words.E * state.unitScale;
+    } else if (g === 28) {
+      // Homing: axes named (or all) go to zero
+      const all = words.X === undefined && words.Y === undefined && words.Z === undefined;
+      if (all || words.X !== undefined) state.x = 0;
+      if (all || words.Y !== undefined) state.y = 0;
+      if (all || words.Z !== undefined) state.z = 0;
+    } else if (g === 20) {
+      state.unitScale = 25.4;
+    } else if (g === 21) {
+      state.unitScale = 1;
+    } else if (m === 82) {
+      state.absoluteE = true;
+    } else if (m === 83) {
+      state.absoluteE = false;
+    }
+  });
+
+  if (moves.every(move => !move.extrude)) {
+    bounds.minX = bounds.maxX = bounds.minY = bounds.maxY = bounds.minZ = bounds.maxZ = 0;
+  }
+
+  return { origin, moves, layers: layers.length ? layers : [0], bounds, lineCount: lines.length };
+};
@@ -1,4 +1,7 @@
-import { VesselParams, PrintStats, TextureData } from '../types';
+import { VesselParams, TextureData } from '../types';
+import { sampleProfile } from './profile';
+import { applyModifiers } from './modifiers';
+import { crossSectionScale } from './crossSection';
 
 export function calculateVesselPoint(
   params: VesselParams, 
@@ -9,69 +12,21 @@ export function calculateVesselPoint(
   heightScale: number = 1,
   textureData: TextureData | null = null
 ) {
-  const { height, baseRadius, twist, noiseScale, noiseFrequency, textureInfluence } = params;
+  const { height, baseRadius, profile, modifiers, noiseSeed } = params;
   
   // Calculate raw height and angle
   const cy = (v * height * heightScale) + heightOffset;
   const theta = u * Math.PI * 2;
   
-  // Apply twist
-  const twistOffset = v * twist;
-  
-  // Apply noise
-  // We use the same 'v' for noise lookup even if height is scaled to ensure patterns match between inner/outer walls
-  const noiseVal = Math.sin((theta + twistOffset) * noiseFrequency) * 
-                   Math.cos(v * height * noiseFrequency * 0.5);
-                   
-  // Calculate radius with noise and offset
-  let r = baseRadius + (noiseVal * noiseScale * (1 - Math.pow(v - 0.5, 2) * 0.5));
-  
-  // Apply Texture Displacement if data exists
-  if (textureData && textureInfluence > 0) {
-      // Map u, v to Texture Coordinates
-      // u wraps 0-1. v goes 0-1.
-      // Texture might need to repeat if aspect ratio differs, or clamp. 
-      // Here we stretch texture to cover surface once.
-      
-      // Simple Nearest Neighbor or Bilinear? 
-      // Bilinear is better for smoothness.
-      
-      const texX = (u * textureData.width) % textureData.width;
-      // Invert V usually because images draw top-down but 3D often goes bottom-up
-      const texY = ((1 - v) * textureData.height) % textureData.height; 
-      
-      const x1 = Math.floor(texX);
-      const y1 = Math.floor(texY);
-      // const index = (y1 * textureData.width) + x1;
-      // const val = textureData.data[index] / 255.0; // 0 to 1
-      
-      // Bilinear Interpolation
-      const x2 = (x1 + 1) % textureData.width;
-      const y2 = (y1 + 1) < textureData.height ? y1 + 1 : y1;
-      
-      const dx = texX - x1;
-      const dy = texY - y1;
-      
-      const i11 = (y1 * textureData.width) + x1;
-      const i21 = (y1 * textureData.width) + x2;
-      const i12 = (y2 * textureData.width) + x1;
-      const i22 = (y2 * textureData.width) + x2;
-      
-      const val11 = textureData.data[i11];
-      const val21 = textureData.data[i21];
-      const val12 = textureData.data[i12];
-      const val22 = textureData.data[i22];
-      
-      const val = (
-          (val11 * (1 - dx) + val21 * dx) * (1 - dy) +
-          (val12 * (1 - dx) + val22 * dx) * dy
-      ) / 255.0;
+  // Silhouette radius from the profile curve
+  const profileRadius = baseRadius * sampleProfile(profile, v);
 
-      // Apply displacement
-      // Dark = 0 displacement? or Dark = negative?
-      // Let's say: Black = 0 displacement, White = full displacement
-      r += val * textureInfluence;
-  }
+  // Surface modifiers (ripple, twist, image displacement, ...)
+  // We use the same 'v' for lookup even if height is scaled to ensure patterns match between inner/outer walls
+  let r = applyModifiers(modifiers, profileRadius, { u, v, height, seed: noiseSeed, textureData });
+
+  // Shape the horizontal section (circle, polygon, star, ...)
+  r *= crossSectionScale(params, theta, v);
 
   r += radiusOffset;
   
@@ -87,6 +42,7 @@ export function calculateVesselPoint(
 export function generateVesselMesh(params: VesselParams, textureData: TextureData | null = null) {
   const { layers, segments, wallThickness, height } = params;
   const vertices: number[] = [];
+  const uvs: number[] = []; // Cylindrical (u, v) of each vertex
   const indices: number[] = [];
   
   // If no thickness, generate single surface (Vase Mode)
@@ -97,6 +53,7 @@ export function generateVesselMesh(params: VesselParams, textureData: TextureDat
         const u = x / segments;
         const p = calculateVesselPoint(params, u, v, 0, 0, 1, textureData);
         vertices.push(p.x, p.y, p.z);
+        uvs.push(u, v);
       }
     }
     
@@ -110,7 +67,7 @@ export function generateVesselMesh(params: VesselParams, textureData: TextureDat
         indices.push(b, c, d);
       }
     }
-    return { vertices: new Float32Array(vertices), indices };
+    return { vertices: new Float32Array(vertices), uvs: new Float32Array(uvs), indices: toIndexArray(indices, vertices.length / 3) };
   }
 
   // --- SOLID GEOMETRY GENERATION ---
@@ -127,6 +84,7 @@ export function generateVesselMesh(params: VesselParams, textureData: TextureDat
       const u = x / segments;
       const p = calculateVesselPoint(params, u, v, 0, 0, 1, textureData);
       vertices.push(p.x, p.y, p.z);
+      uvs.push(u, v);
     }
   }
 
@@ -146,6 +104,7 @@ export function generateVesselMesh(params: VesselParams, textureData: TextureDat
       // Scale height to fit remaining space
       const p = calculateVesselPoint(params, u, v, -wallThickness, wallThickness, innerHeightScale, textureData);
       vertices.push(p.x, p.y, p.z);
+      uvs.push(u, v);
     }
   }
 
@@ -202,9 +161,11 @@ export function generateVesselMesh(params: VesselParams, textureData: TextureDat
   // 6. Stitch Bottom Floor
   const centerBottomIndex = vertices.length / 3;
   vertices.push(0, 0, 0); // Center Bottom Outer
+  uvs.push(0.5, 0);
   
   const centerFloorIndex = centerBottomIndex + 1;
   vertices.push(0, wallThickness, 0); // Center Floor Inner
+  uvs.push(0.5, 0);
 
   // Outer Bottom Cap
   const outerBottomRow = 0;
@@ -220,70 +181,93 @@ export function generateVesselMesh(params: VesselParams, textureData: TextureDat
 
   return { 
     vertices: new Float32Array(vertices), 
-    indices 
+    uvs: new Float32Array(uvs),
+    indices: toIndexArray(indices, vertices.length / 3)
   };
 }
 
-export const calculatePrintStats = (params: VesselParams, textureData: TextureData | null = null): PrintStats => {
-  const { layers, segments, height, baseRadius, printSpeed, filamentDiameter } = params;
-  
-  // Approximate path length for stats
-  // We simulate a spiral walk similar to G-code generation but faster
-  let totalDist = 0;
-  const layerHeight = height / layers;
-  
-  // Quick estimation: Average circumference * layers
-  // To be more accurate, we sample the noise function at 10 points per layer
-  const sampleSteps = Math.min(segments, 20); 
-  
-  let prevP = calculateVesselPoint(params, 0, 0, 0, 0, 1, textureData);
-  
-  // We'll iterate through layers and accumulate distance
-  for (let i = 0; i <= layers; i++) {
-    const v = i / layers;
-    for (let j = 0; j <= sampleSteps; j++) {
-       const u = j / sampleSteps;
-       const p = calculateVesselPoint(params, u, v, 0, 0, 1, textureData);
-       
-       // Just horizontal distance for simplicity + vertical step
-       const dx = p.x - prevP.x;
-       const dy = p.y - prevP.y;
-       const dz = p.z - prevP.z;
-       
-       totalDist += Math.sqrt(dx*dx + dy*dy + dz*dz);
-       prevP = p;
+/**
+ * Maps every vertex to the first vertex at the same position (0.1µm grid), so
+ * duplicated vertices like the u = 0 / u = 1 seam columns count as one.
+ */
+export const weldVertices = (vertices: Float32Array): Uint32Array => {
+  const count = vertices.length / 3;
+  const welded = new Uint32Array(count);
+  const seen = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const key = `${Math.round(vertices[i * 3] * 1e4)},${Math.round(vertices[i * 3 + 1] * 1e4)},${Math.round(vertices[i * 3 + 2] * 1e4)}`;
+    const first = seen.get(key);
+    if (first === undefined) seen.set(key, i);
+    welded[i] = first ?? i;
+  }
+  return welded;
+};
+
+/**
+ * Smooth per-vertex normals (area-weighted face normals). Welded vertices
+ * share one normal so the seam does not show in renders.
+ */
+export const computeSmoothNormals = (vertices: Float32Array, indices: ArrayLike<number>): Float32Array => {
+  const count = vertices.length / 3;
+  const welded = weldVertices(vertices);
+
+  // Unnormalised cross products are weighted by triangle area
+  const sums = new Float32Array(count * 3);
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t] * 3, b = indices[t + 1] * 3, c = indices[t + 2] * 3;
+    const ux = vertices[b] - vertices[a], uy = vertices[b + 1] - vertices[a + 1], uz = vertices[b + 2] - vertices[a + 2];
+    const vx = vertices[c] - vertices[a], vy = vertices[c + 1] - vertices[a + 1], vz = vertices[c + 2] - vertices[a + 2];
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    for (let k = 0; k < 3; k++) {
+      const w = welded[indices[t + k]] * 3;
+      sums[w] += nx;
+      sums[w + 1] += ny;
+      sums[w + 2] += nz;
     }
   }
-  
-  let spiralDist = 0;
-  for(let i=0; i<layers; i++) {
-     const v = i/layers;
-     // Sample radius at 4 points to average noise
-     let avgR = 0;
-     for(let k=0; k<4; k++) {
-         avgR += calculateVesselPoint(params, k/4, v, 0, 0, 1, textureData).r;
-     }
-     avgR /= 4;
-     spiralDist += 2 * Math.PI * avgR;
+
+  const normals = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const w = welded[i] * 3;
+    const len = Math.hypot(sums[w], sums[w + 1], sums[w + 2]) || 1;
+    normals[i * 3] = sums[w] / len;
+    normals[i * 3 + 1] = sums[w + 1] / len;
+    normals[i * 3 + 2] = sums[w + 2] / len;
   }
-  
-  // Filament Usage
-  const extrudedVol = spiralDist * (params.nozzleDiameter * layerHeight);
-  
-  // Filament Length (Input) = Vol / (PI * (FilamentDiam/2)^2)
-  const filamentArea = Math.PI * Math.pow(filamentDiameter / 2, 2);
-  const filamentLengthMM = extrudedVol / filamentArea;
-  
-  // Weight: Density of wet clay approx 1.6 - 1.8 g/cm3
-  // Vol in mm3. 1 cm3 = 1000 mm3.
-  const clayDensity = 0.0017; // g/mm3
-  const weight = extrudedVol * clayDensity;
+  return normals;
+};
 
+// 16-bit indices wrap past 65535 vertices; switch to 32-bit when the mesh needs it
+const toIndexArray = (indices: number[], vertexCount: number) =>
+  vertexCount > 65535 ? new Uint32Array(indices) : new Uint16Array(indices);
+
+/**
+ * Params for a lighter preview mesh: layers and segments are scaled down
+ * together until the solid mesh fits `vertexBudget`. Returns params unchanged
+ * when it already fits.
+ */
+export const decimateParams = (params: VesselParams, vertexBudget: number): VesselParams => {
+  const shells = params.wallThickness > 0 ? 2 : 1;
+  const vertexCount = shells * (params.layers + 1) * (params.segments + 1);
+  if (vertexCount <= vertexBudget) return params;
+  const scale = Math.sqrt(vertexBudget / vertexCount);
   return {
-    estimatedTime: spiralDist / params.printSpeed,
-    filamentLength: filamentLengthMM / 1000, // meters
-    filamentWeight: weight,
-    layerHeight: layerHeight,
-    totalLayers: layers
+    ...params,
+    layers: Math.max(2, Math.floor(params.layers * scale)),
+    segments: Math.max(3, Math.floor(params.segments * scale)),
   };
-};
\ No newline at end of file
+};
+
+/**
+ * How many concentric perimeters fill the wall in layered mode, and how wide
+ * each bead is. The count is rounded from wallThickness / nozzleDiameter and
+ * the width is then stretched or squeezed so the beads fill the wall exactly.
+ */
+export const getPerimeterLayout = (params: VesselParams) => {
+  const { wallThickness, nozzleDiameter } = params;
+  if (wallThickness <= 0) return { count: 1, width: nozzleDiameter };
+  const count = Math.max(1, Math.round(wallThickness / nozzleDiameter));
+  return { count, width: wallThickness / count };
+};
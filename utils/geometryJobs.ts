@@ -0,0 +1,123 @@
+import { VesselParams, TextureData, PrinterProfile, PrintStats, ExportFormat, Toolpath } from '../types';
+import { generateVesselMesh } from './geometry';
+import { calculatePrintStats } from './printStats';
+import { analyzeStability, StabilityResult } from './stability';
+import { analyzeOverhang, OverhangAnalysis } from './overhang';
+import { validateMesh, MeshValidation } from './meshValidation';
+import { buildExport, ExportFile, ExportProgress } from './exporters';
+import { checkBedFit, BedIssue } from './bedCheck';
+import { generateGCODE } from './gcode';
+import { parseGCODE } from './gcodeParser';
+import { greenParams } from './shrinkage';
+
+export interface VesselMeshData {
+  vertices: Float32Array;
+  uvs: Float32Array;
+  indices: Uint16Array | Uint32Array;
+}
+
+/** Everything the analysis panel and heatmaps need for one design. */
+export interface DesignAnalysis {
+  stats: PrintStats;
+  stability: StabilityResult;
+  overhang: OverhangAnalysis;
+  validation: MeshValidation; // Of the full-resolution mesh that mesh exports write
+  bedIssues: BedIssue[]; // Of the placed vessel on the printer, for G-code export
+}
+
+// Request payload and result of every job the geometry worker runs
+export interface GeometryJobs {
+  mesh: {
+    request: { params: VesselParams; textureData: TextureData | null };
+    result: VesselMeshData;
+  };
+  analysis: {
+    request: { params: VesselParams; printer: PrinterProfile; textureData: TextureData | null };
+    result: DesignAnalysis;
+  };
+  toolpath: {
+    request: { params: VesselParams; printer: PrinterProfile; textureData: TextureData | null };
+    result: Toolpath;
+  };
+  export: {
+    request: { format: ExportFormat; params: VesselParams; printer: PrinterProfile; textureData: TextureData | null };
+    result: ExportFile;
+  };
+}
+
+export type GeometryJobType = keyof GeometryJobs;
+export type GeometryJobRequest<T extends GeometryJobType> = GeometryJobs[T]['request'];
+export type GeometryJobResult<T extends GeometryJobType> = GeometryJobs[T]['result'];
+
+// Main thread -> worker
+export type WorkerRequest =
+  | { kind: 'run'; id: number; type: GeometryJobType; payload: GeometryJobRequest<GeometryJobType> }
+  | { kind: 'cancel'; id: number };
+
+// Worker -> main thread
+export type WorkerResponse =
+  | { kind: 'done'; id: number; result: GeometryJobResult<GeometryJobType> }
+  | { kind: 'progress'; id: number; fraction: number }
+  | { kind: 'cancelled'; id: number }
+  | { kind: 'error'; id: number; message: string };
+
+export const analyzeDesign = (
+  params: VesselParams,
+  printer: PrinterProfile,
+  textureData: TextureData | null
+): DesignAnalysis => {
+  // Printing is analysed at the size it is printed
+  const green = greenParams(params);
+  const stats = calculatePrintStats(green, printer, textureData);
+  return {
+    stats,
+    stability: analyzeStability(green, textureData, stats.layerTimes),
+    overhang: analyzeOverhang(green, textureData),
+    validation: validateMesh(green, generateVesselMesh(green, textureData)),
+    bedIssues: checkBedFit(green, printer, textureData),
+  };
+};
+
+/** Our own G-code for the design, read back as a toolpath for the viewer and simulator. */
+export const generateToolpath = (params: VesselParams, printer: PrinterProfile, textureData: TextureData | null) =>
+  parseGCODE(generateGCODE(greenParams(params), printer, textureData));
+
+/** Runs one job. Used by the worker, and inline where workers are unavailable. */
+export const runGeometryJob = async <T extends GeometryJobType>(
+  type: T,
+  payload: GeometryJobRequest<T>,
+  onProgress: ExportProgress = () => {}
+): Promise<GeometryJobResult<T>> => {
+  // The payload type follows `type`, which TypeScript cannot narrow through T
+  const job = { type, payload } as { [K in GeometryJobType]: { type: K; payload: GeometryJobRequest<K> } }[GeometryJobType];
+  switch (job.type) {
+    case 'mesh':
+      return generateVesselMesh(job.payload.params, job.payload.textureData) as GeometryJobResult<T>;
+    case 'analysis':
+      return analyzeDesign(job.payload.params, job.payload.printer, job.payload.textureData) as GeometryJobResult<T>;
+    case 'toolpath':
+      return generateToolpath(job.payload.params, job.payload.printer, job.payload.textureData) as GeometryJobResult<T>;
+    case 'export': {
+      const { format, params, printer, textureData } = job.payload;
+      return (await buildExport(format, params, printer, textureData, onProgress)) as GeometryJobResult<T>;
+    }
+  }
+};
+
+/** Buffers a result can hand over to the other thread instead of copying. */
+export const getTransferables = (type: GeometryJobType, result: GeometryJobResult<GeometryJobType>): ArrayBuffer[] => {
+  switch (type) {
+    case 'mesh': {
+      const mesh = result as VesselMeshData;
+      return [mesh.vertices.buffer as ArrayBuffer, mesh.uvs.buffer as ArrayBuffer, mesh.indices.buffer as ArrayBuffer];
+    }
+    case 'analysis': {
+      const analysis = result as DesignAnalysis;
+      return [analysis.overhang.angles.buffer as ArrayBuffer, analysis.validation.flags.buffer as ArrayBuffer];
+    }
+    case 'toolpath':
+      return []; // Plain objects, copied
+    case 'export':
+      return (result as ExportFile).parts.filter((part): part is ArrayBuffer => part instanceof ArrayBuffer);
+  }
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { VesselParams } from '../types';
+import { INITIAL_PARAMS } from './defaults';
+import {
+  DesignHistory,
+  HISTORY_LIMIT,
+  activePath,
+  canRedo,
+  canUndo,
+  createHistory,
+  currentEntry,
+  jumpTo,
+  recordParams,
+  redo,
+  undo,
+} from './history';
+
+// Edits far enough apart that they never coalesce
+const STEP_MS = 10_000;
+
+const edit = (history: DesignHistory, patch: Partial<VesselParams>, now: number) =>
+  recordParams(history, { ...currentEntry(history).params, ...patch }, now);
+
+const heights = (history: DesignHistory, count: number, start = 0) => {
+  let next = history;
+  for (let i = 1; i <= count; i++) next = edit(next, { height: 100 + start + i }, (start + i) * STEP_MS);
+  return next;
+};
+
+describe('recordParams', () => {
+  it('adds a labelled step after the current one', () => {
+    const history = edit(createHistory(INITIAL_PARAMS, 0), { baseRadius: 60 }, STEP_MS);
+    const entry = currentEntry(history);
+
+    expect(history.entries).toHaveLength(2);
+    expect(entry).toMatchObject({ parent: 0, label: 'Base radius', keys: 'baseRadius' });
+    expect(entry.params.baseRadius).toBe(60);
+  });
+
+  it('labels known fields and summarises larger edits', () => {
+    const start = createHistory(INITIAL_PARAMS, 0);
+    expect(currentEntry(edit(start, { noiseSeed: 7 }, STEP_MS)).label).toBe('Seed');
+    expect(currentEntry(edit(start, { height: 90, layers: 200, segments: 60 }, STEP_MS)).label).toBe('3 changes');
+  });
+
+  it('ignores params that did not change', () => {
+    const history = createHistory(INITIAL_PARAMS, 0);
+    expect(recordParams(history, INITIAL_PARAMS)).toBe(history);
+    expect(recordParams(history, { ...INITIAL_PARAMS })).toBe(history);
+  });
+
+  it('coalesces quick edits of the same fields, like a slider drag', () => {
+    let history = edit(createHistory(INITIAL_PARAMS, 0), { height: 101 }, 10_000);
+    history = edit(history, { height: 102 }, 10_300);
+    history = edit(history, { height: 103 }, 10_600);
+
+    expect(history.entries).toHaveLength(2);
+    expect(currentEntry(history).params.height).toBe(103);
+  });
+
+  it('starts a new step after a pause or for other fields', () => {
+    let history = edit(createHistory(INITIAL_PARAMS, 0), { height: 101 }, 10_000);
+    history = edit(history, { height: 102 }, 12_000);
+    history = edit(history, { layers: 200 }, 12_100);
+    expect(history.entries).toHaveLength(4);
+  });
+
+  it('never merges into a step that has a branch below it', () => {
+    let history = edit(createHistory(INITIAL_PARAMS, 0), { height: 101 }, 10_000);
+    history = edit(history, { height: 102 }, 10_100);
+    history = undo(history);
+    history = edit(history, { height: 110 }, 10_200);
+    expect(history.entries).toHaveLength(3);
+  });
+});
+
+describe('undo / redo', () => {
+  it('walks back and forth along the path', () => {
+    let history = heights(createHistory(INITIAL_PARAMS, 0), 2);
+    expect(canRedo(history)).toBe(false);
+
+    history = undo(undo(history));
+    expect(currentEntry(history).params).toBe(INITIAL_PARAMS);
+    expect(canUndo(history)).toBe(false);
+    expect(undo(history)).toBe(history);
+
+    history = redo(history);
+    expect(currentEntry(history).params.height).toBe(101);
+    expect(canRedo(history)).toBe(true);
+  });
+
+  it('keeps the old branch when editing after an undo', () => {
+    let history = heights(createHistory(INITIAL_PARAMS, 0), 2);
+    history = undo(history);
+    history = edit(history, { layers: 300 }, 100 * STEP_MS);
+
+    expect(history.entries).toHaveLength(4);
+    expect(history.entries.filter(e => e.parent === 1)).toHaveLength(2);
+    expect(activePath(history)).toEqual(new Set([0, 1, 3]));
+  });
+
+  it('redoes into the branch that was visited last', () => {
+    let history = heights(createHistory(INITIAL_PARAMS, 0), 2); // 0 -> 1 -> 2
+    history = undo(history);
+    history = edit(history, { layers: 300 }, 100 * STEP_MS); // 1 -> 3
+    history = jumpTo(history, 2);
+    history = undo(history);
+
+    expect(redo(history).current).toBe(2);
+  });
+});
+
+describe('jumpTo', () => {
+  it('makes any step current and redo leads back along the path left', () => {
+    let history = heights(createHistory(INITIAL_PARAMS, 0), 3);
+    history = jumpTo(history, 0);
+
+    expect(history.current).toBe(0);
+    expect(redo(history).current).toBe(1);
+    expect(redo(redo(redo(history))).current).toBe(3);
+  });
+
+  it('ignores unknown ids', () => {
+    const history = heights(createHistory(INITIAL_PARAMS, 0), 1);
+    expect(jumpTo(history, 99)).toBe(history);
+  });
+});
+
+describe('history limit', () => {
+  it('drops the oldest steps of a long line', () => {
+    const history = heights(createHistory(INITIAL_PARAMS, 0), HISTORY_LIMIT + 20);
+    const root = history.entries.find(e => e.parent === null);
+
+    expect(history.entries).toHaveLength(HISTORY_LIMIT);
+    expect(currentEntry(history).params.height).toBe(100 + HISTORY_LIMIT + 20);
+    expect(root?.id).toBe(21);
+  });
+
+  it('drops a stale branch tip before a root that still branches', () => {
+    let history = heights(createHistory(INITIAL_PARAMS, 0), 1); // 0 -> 1
+    history = undo(history);
+    history = heights(history, HISTORY_LIMIT - 1, 10); // 0 -> 2 -> ... fills one past the limit
+
+    expect(history.entries).toHaveLength(HISTORY_LIMIT);
+    expect(history.entries.some(e => e.id === 1)).toBe(false);
+    expect(history.entries.some(e => e.id === 0)).toBe(true);
+  });
+});
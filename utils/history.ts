@@ -0,0 +1,162 @@
+import { VesselParams } from '../types';
+
+export interface HistoryEntry {
+  id: number;
+  parent: number | null;
+  params: VesselParams;
+  label: string;
+  keys: string; // Fields this step changed; the next edit of the same fields may coalesce into it
+  time: number; // ms, of the latest edit merged into this step
+}
+
+/**
+ * Undo history as a tree: undoing and then editing starts a new branch and
+ * keeps the old one, so any earlier state can be returned to.
+ */
+export interface DesignHistory {
+  entries: HistoryEntry[]; // Oldest first
+  current: number;
+  redoTargets: Record<number, number>; // Child redo moves to from each entry: the branch last visited
+  nextId: number;
+}
+
+// Steps kept before the oldest are dropped
+export const HISTORY_LIMIT = 200;
+// Edits of the same fields this close together (ms) form one step, e.g. a slider drag
+const COALESCE_MS = 800;
+
+const FIELD_LABELS: Partial<Record<keyof VesselParams, string>> = {
+  materialId: 'Clay body',
+  customMaterial: 'Clay body',
+  modifiers: 'Surface modifiers',
+  noiseSeed: 'Seed',
+  textureImage: 'Texture image',
+  printerProfileId: 'Printer',
+  designForFiredSize: 'Fired size mode',
+};
+
+// "baseRadius" -> "Base radius"
+const fieldLabel = (key: keyof VesselParams) =>
+  FIELD_LABELS[key] ?? key.replace(/([A-Z])/g, ' $1').toLowerCase().replace(/^./, c => c.toUpperCase());
+
+const describeChange = (keys: (keyof VesselParams)[]) => {
+  const labels = [...new Set(keys.map(fieldLabel))];
+  return labels.length <= 2 ? labels.join(', ') : `${labels.length} changes`;
+};
+
+export const createHistory = (params: VesselParams, now = Date.now()): DesignHistory => ({
+  entries: [{ id: 0, parent: null, params, label: 'Start', keys: '', time: now }],
+  current: 0,
+  redoTargets: {},
+  nextId: 1,
+});
+
+export const currentEntry = (history: DesignHistory) =>
+  history.entries.find(e => e.id === history.current) ?? history.entries[0];
+
+const childrenOf = (history: DesignHistory, id: number) => history.entries.filter(e => e.parent === id);
+
+/** Ids from the current entry up to the root. */
+export const activePath = (history: DesignHistory): Set<number> => {
+  const path = new Set<number>();
+  let entry: HistoryEntry | undefined = currentEntry(history);
+  while (entry) {
+    path.add(entry.id);
+    const parent: number | null = entry.parent;
+    entry = parent === null ? undefined : history.entries.find(e => e.id === parent);
+  }
+  return path;
+};
+
+// Drops the oldest step that is off the current path: a stale branch tip, or
+// the root once the history is a single line
+const prune = (history: DesignHistory): DesignHistory => {
+  const path = activePath(history);
+  const victim = history.entries.find(e => {
+    const children = childrenOf(history, e.id).length;
+    if (!path.has(e.id)) return children === 0;
+    return e.parent === null && e.id !== history.current && children === 1;
+  });
+  if (!victim) return history;
+  return {
+    ...history,
+    entries: history.entries
+      .filter(e => e.id !== victim.id)
+      .map(e => (e.parent === victim.id ? { ...e, parent: null } : e)),
+  };
+};
+
+/**
+ * Records params as the next step after the current one. Consecutive edits
+ * of the same fields coalesce into one step while they keep coming.
+ */
+export const recordParams = (history: DesignHistory, params: VesselParams, now = Date.now()): DesignHistory => {
+  const current = currentEntry(history);
+  if (params === current.params) return history;
+
+  const changed = (Object.keys(params) as (keyof VesselParams)[]).filter(key => params[key] !== current.params[key]);
+  if (changed.length === 0) return history;
+  const keys = changed.join(',');
+
+  const canCoalesce = current.parent !== null
+    && current.keys === keys
+    && now - current.time < COALESCE_MS
+    && childrenOf(history, current.id).length === 0;
+  if (canCoalesce) {
+    return {
+      ...history,
+      entries: history.entries.map(e => (e.id === current.id ? { ...e, params, time: now } : e)),
+    };
+  }
+
+  const entry: HistoryEntry = { id: history.nextId, parent: current.id, params, label: describeChange(changed), keys, time: now };
+  let next: DesignHistory = {
+    entries: [...history.entries, entry],
+    current: entry.id,
+    redoTargets: { ...history.redoTargets, [current.id]: entry.id },
+    nextId: history.nextId + 1,
+  };
+  while (next.entries.length > HISTORY_LIMIT) {
+    const pruned = prune(next);
+    if (pruned === next) break;
+    next = pruned;
+  }
+  return next;
+};
+
+export const canUndo = (history: DesignHistory) => currentEntry(history).parent !== null;
+
+export const canRedo = (history: DesignHistory) => childrenOf(history, history.current).length > 0;
+
+export const undo = (history: DesignHistory): DesignHistory => {
+  const current = currentEntry(history);
+  if (current.parent === null) return history;
+  return {
+    ...history,
+    current: current.parent,
+    redoTargets: { ...history.redoTargets, [current.parent]: current.id },
+  };
+};
+
+export const redo = (history: DesignHistory): DesignHistory => {
+  const children = childrenOf(history, history.current);
+  if (children.length === 0) return history;
+  const target = children.find(e => e.id === history.redoTargets[history.current]) ?? children[children.length - 1];
+  return { ...history, current: target.id };
+};
+
+/**
+ * Makes any step current. Redo then leads back along the path just left, and
+ * the next edit branches off from the chosen step.
+ */
+export const jumpTo = (history: DesignHistory, id: number): DesignHistory => {
+  if (!history.entries.some(e => e.id === id)) return history;
+  const redoTargets = { ...history.redoTargets };
+  let entry: HistoryEntry | undefined = currentEntry(history);
+  while (entry && entry.parent !== null && entry.id !== id) {
+    redoTargets[entry.parent] = entry.id;
+    const parent: number = entry.parent;
+    entry = history.entries.find(e => e.id === parent);
+  }
+  return { ...history, current: id, redoTargets };
+};
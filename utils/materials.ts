@@ -0,0 +1,99 @@
+import { ClayMaterial, VesselParams } from '../types';
+
+export const CUSTOM_MATERIAL_ID = 'custom';
+
+// Typical values for commercial throwing bodies, softened to extrusion
+// consistency. Clays vary a lot between suppliers; 'Custom' covers the rest.
+export const CLAY_MATERIALS: ClayMaterial[] = [
+  {
+    id: 'porcelain',
+    name: 'Porcelain',
+    wetDensity: 1.8,
+    waterContent: 22,
+    dryingShrinkage: 6,
+    firingShrinkage: 7,
+    verticalShrinkageRatio: 1.2,
+    layerHeightRatio: 0.6,
+    maxOverhangAngle: 25,
+    extrusionMultiplier: 1,
+    yieldStress: 2500,
+    stiffeningRate: 40,
+  },
+  {
+    id: 'stoneware',
+    name: 'Stoneware',
+    wetDensity: 1.75,
+    waterContent: 20,
+    dryingShrinkage: 5,
+    firingShrinkage: 6,
+    verticalShrinkageRatio: 1.15,
+    layerHeightRatio: 0.8,
+    maxOverhangAngle: 35,
+    extrusionMultiplier: 1,
+    yieldStress: 3000,
+    stiffeningRate: 60,
+  },
+  {
+    id: 'earthenware',
+    name: 'Earthenware',
+    wetDensity: 1.7,
+    waterContent: 22,
+    dryingShrinkage: 5,
+    firingShrinkage: 3,
+    verticalShrinkageRatio: 1.1,
+    layerHeightRatio: 0.75,
+    maxOverhangAngle: 30,
+    extrusionMultiplier: 1,
+    yieldStress: 2800,
+    stiffeningRate: 50,
+  },
+  {
+    id: 'terracotta',
+    name: 'Terracotta',
+    wetDensity: 1.65,
+    waterContent: 24,
+    dryingShrinkage: 6,
+    firingShrinkage: 2,
+    verticalShrinkageRatio: 1.1,
+    layerHeightRatio: 0.7,
+    maxOverhangAngle: 30,
+    extrusionMultiplier: 1.05,
+    yieldStress: 3500,
+    stiffeningRate: 70,
+  },
+];
+
+export const DEFAULT_MATERIAL = CLAY_MATERIALS[1];
+
+/** The clay body a design prints with: a library preset, or its own custom body. */
+export const resolveMaterial = (params: VesselParams): ClayMaterial => {
+  if (params.materialId === CUSTOM_MATERIAL_ID) return params.customMaterial;
+  return CLAY_MATERIALS.find(m => m.id === params.materialId) ?? DEFAULT_MATERIAL;
+};
+
+/** Wet density in g/mm³, for weights computed from extruded volume. */
+export const materialDensity = (material: ClayMaterial) => material.wetDensity / 1000;
+
+/** Total linear shrinkage from wet to fired, as a fraction. */
+export const totalShrinkage = (material: ClayMaterial) =>
+  1 - (1 - material.dryingShrinkage / 100) * (1 - material.firingShrinkage / 100);
+
+/** Layer count that gives the material's recommended layer height for the nozzle. */
+export const recommendedLayers = (material: ClayMaterial, height: number, nozzleDiameter: number) =>
+  Math.max(1, Math.round(height / (nozzleDiameter * material.layerHeightRatio)));
+
+/**
+ * Params after editing the design's clay body. Presets stay untouched: editing
+ * one copies it into the design's custom material first.
+ */
+export const updateMaterial = (
+  params: VesselParams,
+  patch: Partial<Omit<ClayMaterial, 'id'>>
+): Pick<VesselParams, 'materialId' | 'customMaterial'> => {
+  const material = resolveMaterial(params);
+  const name = material.id === CUSTOM_MATERIAL_ID ? material.name : `${material.name} (custom)`;
+  return {
+    materialId: CUSTOM_MATERIAL_ID,
+    customMaterial: { ...material, name, ...patch, id: CUSTOM_MATERIAL_ID },
+  };
+};
@@ -0,0 +1,155 @@
+import { VesselParams } from '../types';
+import { weldVertices } from './geometry';
+
+// Per-vertex problem flags, combined bitwise
+export const MESH_FLAG_EDGE = 1; // On an open or non-manifold edge
+export const MESH_FLAG_DEGENERATE = 2; // Corner of a zero-area triangle
+export const MESH_FLAG_THIN = 4; // Wall thinner than the nozzle
+export const MESH_FLAG_INVERTED = 8; // Inner wall at or outside the outer wall
+
+export interface MeshIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Triangles smaller than this (mm²) count as degenerate
+const MIN_TRIANGLE_AREA = 1e-8;
+
+export interface MeshValidation {
+  openEdges: number;
+  nonManifoldEdges: number;
+  degenerateTriangles: number;
+  intersections: number; // Inner shell vertices at or outside the outer shell
+  thinPoints: number; // Inner shell vertices where the wall is thinner than the nozzle
+  minWall: number | null; // mm, thinnest wall measured (solid meshes only)
+  issues: MeshIssue[];
+  flags: Uint8Array; // MESH_FLAG_* per vertex
+}
+
+/**
+ * Checks a mesh from generateVesselMesh before it goes to a slicer:
+ *  - every edge shared by exactly two triangles (watertight and manifold),
+ *    with duplicated seam vertices welded first
+ *  - no zero-area triangles
+ *  - the inner shell stays inside the outer shell, at least a nozzle width
+ *    thick measured across the wall
+ * Vase-mode meshes are a single open surface, so only triangles are checked.
+ */
+export const validateMesh = (
+  params: VesselParams,
+  mesh: { vertices: Float32Array; indices: ArrayLike<number> }
+): MeshValidation => {
+  const { vertices, indices } = mesh;
+  const { layers, segments, height, wallThickness, nozzleDiameter } = params;
+  const count = vertices.length / 3;
+  const solid = wallThickness > 0;
+  const flags = new Uint8Array(count);
+  const welded = weldVertices(vertices);
+
+  // Edge use counts over welded vertices
+  const edges = new Map<number, number>();
+  let degenerateTriangles = 0;
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t], b = indices[t + 1], c = indices[t + 2];
+    const ux = vertices[b * 3] - vertices[a * 3], uy = vertices[b * 3 + 1] - vertices[a * 3 + 1], uz = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+    const vx = vertices[c * 3] - vertices[a * 3], vy = vertices[c * 3 + 1] - vertices[a * 3 + 1], vz = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+    const area = Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+    if (area < MIN_TRIANGLE_AREA) {
+      degenerateTriangles++;
+      flags[a] |= MESH_FLAG_DEGENERATE;
+      flags[b] |= MESH_FLAG_DEGENERATE;
+      flags[c] |= MESH_FLAG_DEGENERATE;
+    }
+    if (!solid) continue;
+    const corners = [welded[a], welded[b], welded[c]];
+    for (let k = 0; k < 3; k++) {
+      const p = corners[k];
+      const q = corners[(k + 1) % 3];
+      if (p === q) continue;
+      const key = Math.min(p, q) * count + Math.max(p, q);
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+  }
+
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  edges.forEach((uses, key) => {
+    if (uses === 2) return;
+    if (uses === 1) openEdges++;
+    else nonManifoldEdges++;
+    flags[Math.floor(key / count)] |= MESH_FLAG_EDGE;
+    flags[key % count] |= MESH_FLAG_EDGE;
+  });
+  // Spread edge flags from welded vertices back to their duplicates
+  for (let i = 0; i < count; i++) flags[i] |= flags[welded[i]] & MESH_FLAG_EDGE;
+
+  // Wall thickness: each inner vertex against the outer wall at the same angle
+  // and height. Outer rows sit at v * height, inner rows are squeezed between
+  // wallThickness and height, so the outer radius is interpolated between rows.
+  let intersections = 0;
+  let thinPoints = 0;
+  let minWall: number | null = null;
+  let lowestIntersection = Infinity;
+  if (solid) {
+    const rowLength = segments + 1;
+    const innerOffset = (layers + 1) * rowLength;
+    const radius = (i: number) => Math.hypot(vertices[i * 3], vertices[i * 3 + 2]);
+
+    for (let row = 0; row <= layers; row++) {
+      for (let col = 0; col <= segments; col++) {
+        const inner = innerOffset + row * rowLength + col;
+        const y = vertices[inner * 3 + 1];
+        const outerRow = Math.min(layers - 1, Math.max(0, Math.floor((y / height) * layers)));
+        const below = outerRow * rowLength + col;
+        const above = (outerRow + 1) * rowLength + col;
+        const t = Math.min(1, Math.max(0, (y / height) * layers - outerRow));
+        const rBelow = radius(below);
+        const rAbove = radius(above);
+        const outerRadius = rBelow + (rAbove - rBelow) * t;
+
+        // Radial gap, reduced to the gap across a leaning wall
+        const slope = (rAbove - rBelow) / (height / layers);
+        const wall = (outerRadius - radius(inner)) / Math.sqrt(1 + slope * slope);
+        if (minWall === null || wall < minWall) minWall = wall;
+
+        if (wall <= 0) {
+          intersections++;
+          lowestIntersection = Math.min(lowestIntersection, y);
+          flags[inner] |= MESH_FLAG_INVERTED;
+          flags[below] |= MESH_FLAG_INVERTED;
+          flags[above] |= MESH_FLAG_INVERTED;
+        } else if (wall < nozzleDiameter) {
+          thinPoints++;
+          flags[inner] |= MESH_FLAG_THIN;
+          flags[below] |= MESH_FLAG_THIN;
+          flags[above] |= MESH_FLAG_THIN;
+        }
+      }
+    }
+  }
+
+  const issues: MeshIssue[] = [];
+  if (openEdges > 0) {
+    issues.push({ severity: 'error', message: `${openEdges} open edges: the mesh is not watertight.` });
+  }
+  if (nonManifoldEdges > 0) {
+    issues.push({ severity: 'error', message: `${nonManifoldEdges} non-manifold edges are shared by more than two faces.` });
+  }
+  if (intersections > 0) {
+    issues.push({
+      severity: 'error',
+      message: `Inner wall crosses the outer wall at ${intersections} points (from ${lowestIntersection.toFixed(0)}mm). Reduce noise/texture depth or wall thickness.`,
+    });
+  }
+  if (degenerateTriangles > 0) {
+    issues.push({ severity: 'warning', message: `${degenerateTriangles} zero-area triangles; slicers may drop them.` });
+  }
+  if (thinPoints > 0 && minWall !== null) {
+    issues.push({
+      severity: 'warning',
+      message: `Wall is thinner than the ${nozzleDiameter}mm nozzle at ${thinPoints} points (down to ${Math.max(0, minWall).toFixed(2)}mm).`,
+    });
+  }
+
+  return { openEdges, nonManifoldEdges, degenerateTriangles, intersections, thinPoints, minWall, issues, flags };
+};
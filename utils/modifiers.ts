@@ -0,0 +1,169 @@
+import { SurfaceModifier, ModifierType, TextureData } from '../types';
+import { cylinderNoise } from './noise';
+
+export const MODIFIER_LABELS: Record<ModifierType, string> = {
+  noise: 'Organic Noise',
+  ripple: 'Sine Ripple',
+  twist: 'Twist',
+  texture: 'Image Displacement',
+  ridges: 'Ridges',
+  facets: 'Facets',
+  bulge: 'Bulge Band',
+};
+
+// Soft edge (in normalized height) where a range-limited modifier fades in/out.
+// Avoids hard horizontal steps in the wall, which clay cannot bridge.
+const RANGE_FEATHER = 0.03;
+
+let nextModifierId = 0;
+
+export const createModifier = (type: ModifierType): SurfaceModifier => {
+  const base = {
+    id: `${type}-${Date.now().toString(36)}-${nextModifierId++}`,
+    enabled: true,
+    vStart: 0,
+    vEnd: 1,
+  };
+
+  switch (type) {
+    case 'noise': return { ...base, type, noiseType: 'simplex', amplitude: 6, scale: 40, octaves: 4, lacunarity: 2, persistence: 0.5, seedOffset: 0, verticalStretch: 1 };
+    case 'ripple': return { ...base, type, amplitude: 10, frequency: 5, verticalStretch: 1 };
+    case 'twist': return { ...base, type, amount: 1 };
+    case 'texture': return { ...base, type, depth: 10 };
+    case 'ridges': return { ...base, type, count: 24, depth: 3, sharpness: 2 };
+    case 'facets': return { ...base, type, count: 8, strength: 1 };
+    case 'bulge': return { ...base, type, center: 0.5, width: 0.15, amount: 10 };
+  }
+};
+
+export interface ModifierContext {
+  u: number; // Angular position, 1 = full turn (may exceed 1 on spiral paths)
+  v: number; // Normalized height
+  height: number; // Vessel height in mm
+  seed: number;
+  textureData: TextureData | null;
+}
+
+/**
+ * Bilinear lookup of the luminance map, returning 0 (black) to 1 (white).
+ * u wraps around the circumference, v is clamped at foot and rim.
+ */
+export const sampleTexture = (textureData: TextureData, u: number, v: number): number => {
+  const { width, height, data } = textureData;
+
+  // Stretch texture to cover surface once. Invert V because images draw
+  // top-down but the vessel grows bottom-up.
+  const texX = (((u * width) % width) + width) % width;
+  const texY = Math.min(height - 1, Math.max(0, (1 - v) * height));
+
+  const x1 = Math.floor(texX);
+  const y1 = Math.floor(texY);
+  const x2 = (x1 + 1) % width;
+  const y2 = (y1 + 1) < height ? y1 + 1 : y1;
+
+  const dx = texX - x1;
+  const dy = texY - y1;
+
+  const val11 = data[(y1 * width) + x1];
+  const val21 = data[(y1 * width) + x2];
+  const val12 = data[(y2 * width) + x1];
+  const val22 = data[(y2 * width) + x2];
+
+  return (
+    (val11 * (1 - dx) + val21 * dx) * (1 - dy) +
+    (val12 * (1 - dx) + val22 * dx) * dy
+  ) / 255.0;
+};
+
+// 0 outside the modifier's height range, 1 inside, with a short ramp at
+// interior edges. Edges at the foot (0) or rim (1) are not feathered.
+const rangeWeight = (mod: SurfaceModifier, v: number): number => {
+  if (v < mod.vStart || v > mod.vEnd) return 0;
+  let w = 1;
+  if (mod.vStart > 0) w = Math.min(w, (v - mod.vStart) / RANGE_FEATHER);
+  if (mod.vEnd < 1) w = Math.min(w, (mod.vEnd - v) / RANGE_FEATHER);
+  return Math.min(1, w);
+};
+
+/**
+ * Runs the modifier stack in order and returns the displaced radius.
+ * Modifiers share an angular `phase`, so a twist placed before a ripple
+ * rotates the ripple, while one placed after it has no effect on it.
+ */
+export const applyModifiers = (
+  modifiers: SurfaceModifier[],
+  radius: number,
+  ctx: ModifierContext
+): number => {
+  const { v, height, seed, textureData } = ctx;
+  let r = radius;
+  let phase = ctx.u * Math.PI * 2;
+
+  for (const mod of modifiers) {
+    if (!mod.enabled) continue;
+
+    // Twist accumulates over its range and keeps the final rotation above it
+    if (mod.type === 'twist') {
+      const clamped = Math.min(mod.vEnd, Math.max(mod.vStart, v));
+      phase += (clamped - mod.vStart) * mod.amount;
+      continue;
+    }
+
+    const weight = rangeWeight(mod, v);
+    if (weight <= 0) continue;
+
+    switch (mod.type) {
+      case 'noise': {
+        // Sampled at the undisplaced profile radius so features keep a
+        // consistent physical size and inner/outer walls share the pattern
+        const n = cylinderNoise(
+          {
+            type: mod.noiseType,
+            seed: seed + mod.seedOffset,
+            octaves: mod.octaves,
+            lacunarity: mod.lacunarity,
+            persistence: mod.persistence,
+          },
+          phase,
+          radius,
+          (v * height) / mod.verticalStretch,
+          mod.scale
+        );
+        r += weight * n * mod.amplitude;
+        break;
+      }
+      case 'ripple': {
+        // We use normalized 'v' (not geometric height) so patterns match between inner/outer walls
+        const wave = Math.sin(phase * mod.frequency) * Math.cos(((v * height) / mod.verticalStretch) * mod.frequency * 0.5);
+        r += weight * wave * mod.amplitude * (1 - Math.pow(v - 0.5, 2) * 0.5);
+        break;
+      }
+      case 'texture': {
+        if (!textureData || mod.depth <= 0) break;
+        // Black = 0 displacement, White = full displacement
+        r += weight * sampleTexture(textureData, phase / (Math.PI * 2), v) * mod.depth;
+        break;
+      }
+      case 'ridges': {
+        const s = 0.5 + 0.5 * Math.cos(phase * mod.count);
+        r += weight * Math.pow(s, mod.sharpness) * mod.depth;
+        break;
+      }
+      case 'facets': {
+        // Polar equation of a regular polygon inscribed in the current radius
+        const sector = (Math.PI * 2) / Math.max(3, mod.count);
+        const local = (((phase % sector) + sector) % sector) - sector / 2;
+        const flat = Math.cos(sector / 2) / Math.cos(local);
+        r *= 1 - weight * mod.strength * (1 - flat);
+        break;
+      }
+      case 'bulge': {
+        const d = (v - mod.center) / Math.max(mod.width, 1e-3);
+        r += weight * mod.amount * Math.exp(-d * d);
+        break;
+      }
+    }
+  }
+
+  return r;
+};
@@ -0,0 +1,178 @@
+import { NoiseType } from '../types';
+
+/**
+ * Deterministic gradient noise.
+ * Everything here derives from an integer seed through a fixed PRNG, so the same
+ * seed always produces the same surface (and the same exported file).
+ */
+
+// Mulberry32: small, fast, fully deterministic 32-bit PRNG
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Permutation tables are cached per seed; building one is cheap but noise is
+// sampled hundreds of thousands of times per mesh.
+const permutationCache = new Map<number, Uint8Array>();
+
+const getPermutation = (seed: number): Uint8Array => {
+  const cached = permutationCache.get(seed);
+  if (cached) return cached;
+
+  const random = createRandom(seed);
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  // Fisher-Yates shuffle
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = p[i]; p[i] = p[j]; p[j] = tmp;
+  }
+
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+  permutationCache.set(seed, perm);
+  return perm;
+};
+
+// 12 gradient directions (cube edge midpoints), shared by both noise types
+const GRAD3 = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+const dot3 = (g: number[], x: number, y: number, z: number) => g[0] * x + g[1] * y + g[2] * z;
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+const lerp = (a: number, b: number, t: number) => a + t * (b - a);
+
+/** Improved Perlin noise, output roughly in [-1, 1]. */
+export const perlin3 = (perm: Uint8Array, x: number, y: number, z: number): number => {
+  const xi = Math.floor(x), yi = Math.floor(y), zi = Math.floor(z);
+  const X = xi & 255, Y = yi & 255, Z = zi & 255;
+  x -= xi; y -= yi; z -= zi;
+
+  const u = fade(x), v = fade(y), w = fade(z);
+
+  const g = (i: number, j: number, k: number) => GRAD3[perm[X + i + perm[Y + j + perm[Z + k]]] % 12];
+
+  const n000 = dot3(g(0, 0, 0), x, y, z);
+  const n100 = dot3(g(1, 0, 0), x - 1, y, z);
+  const n010 = dot3(g(0, 1, 0), x, y - 1, z);
+  const n110 = dot3(g(1, 1, 0), x - 1, y - 1, z);
+  const n001 = dot3(g(0, 0, 1), x, y, z - 1);
+  const n101 = dot3(g(1, 0, 1), x - 1, y, z - 1);
+  const n011 = dot3(g(0, 1, 1), x, y - 1, z - 1);
+  const n111 = dot3(g(1, 1, 1), x - 1, y - 1, z - 1);
+
+  return lerp(
+    lerp(lerp(n000, n100, u), lerp(n010, n110, u), v),
+    lerp(lerp(n001, n101, u), lerp(n011, n111, u), v),
+    w
+  );
+};
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+/** 3D simplex noise, output roughly in [-1, 1]. */
+export const simplex3 = (perm: Uint8Array, x: number, y: number, z: number): number => {
+  // Skew input space to find the containing simplex cell
+  const s = (x + y + z) * F3;
+  const i = Math.floor(x + s), j = Math.floor(y + s), k = Math.floor(z + s);
+  const t = (i + j + k) * G3;
+  const x0 = x - (i - t), y0 = y - (j - t), z0 = z - (k - t);
+
+  // Determine which of the six tetrahedra we are in
+  let i1, j1, k1, i2, j2, k2;
+  if (x0 >= y0) {
+    if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+    else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+    else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+  } else {
+    if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+    else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+    else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+  }
+
+  const x1 = x0 - i1 + G3, y1 = y0 - j1 + G3, z1 = z0 - k1 + G3;
+  const x2 = x0 - i2 + 2 * G3, y2 = y0 - j2 + 2 * G3, z2 = z0 - k2 + 2 * G3;
+  const x3 = x0 - 1 + 3 * G3, y3 = y0 - 1 + 3 * G3, z3 = z0 - 1 + 3 * G3;
+
+  const ii = i & 255, jj = j & 255, kk = k & 255;
+
+  const corner = (tx: number, ty: number, tz: number, gi: number) => {
+    let c = 0.6 - tx * tx - ty * ty - tz * tz;
+    if (c < 0) return 0;
+    c *= c;
+    return c * c * dot3(GRAD3[gi], tx, ty, tz);
+  };
+
+  const n0 = corner(x0, y0, z0, perm[ii + perm[jj + perm[kk]]] % 12);
+  const n1 = corner(x1, y1, z1, perm[ii + i1 + perm[jj + j1 + perm[kk + k1]]] % 12);
+  const n2 = corner(x2, y2, z2, perm[ii + i2 + perm[jj + j2 + perm[kk + k2]]] % 12);
+  const n3 = corner(x3, y3, z3, perm[ii + 1 + perm[jj + 1 + perm[kk + 1]]] % 12);
+
+  // Scale to roughly [-1, 1]
+  return 32 * (n0 + n1 + n2 + n3);
+};
+
+export interface FractalOptions {
+  type: NoiseType;
+  seed: number;
+  octaves: number;
+  lacunarity: number; // Frequency multiplier per octave
+  persistence: number; // Amplitude multiplier per octave
+}
+
+/**
+ * Fractal (fBm) sum of octaves, normalized back to roughly [-1, 1].
+ * Each octave gets its own offset so octaves don't line up at the origin.
+ */
+export const fractalNoise3 = (options: FractalOptions, x: number, y: number, z: number): number => {
+  const perm = getPermutation(options.seed);
+  const sample = options.type === 'simplex' ? simplex3 : perlin3;
+  const octaves = Math.max(1, Math.round(options.octaves));
+
+  let sum = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let norm = 0;
+
+  for (let o = 0; o < octaves; o++) {
+    const offset = o * 31.7;
+    sum += amplitude * sample(perm, x * frequency + offset, y * frequency + offset, z * frequency + offset);
+    norm += amplitude;
+    amplitude *= options.persistence;
+    frequency *= options.lacunarity;
+  }
+
+  return norm > 0 ? sum / norm : 0;
+};
+
+/**
+ * Samples fractal noise on the surface of a cylinder.
+ * Angle maps onto a circle in noise space instead of a straight line, so the
+ * pattern wraps around the vessel without a seam at u = 0 / 1.
+ */
+export const cylinderNoise = (
+  options: FractalOptions,
+  angle: number,
+  radius: number,
+  y: number,
+  featureSize: number
+): number => {
+  const scale = 1 / Math.max(featureSize, 1e-3);
+  return fractalNoise3(
+    options,
+    Math.cos(angle) * radius * scale,
+    Math.sin(angle) * radius * scale,
+    y * scale
+  );
+};
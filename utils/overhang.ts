@@ -0,0 +1,104 @@
+import { VesselParams, TextureData } from '../types';
+import { calculateVesselPoint, getPerimeterLayout } from './geometry';
+
+// Layers listed in the worst-layers report
+const WORST_LAYER_COUNT = 5;
+
+export interface LayerOverhang {
+  layer: number; // 0-based toolpath layer
+  z: number; // mm
+  maxAngle: number; // Degrees from vertical
+  meanAngle: number; // Degrees from vertical
+  maxStepOut: number; // mm, horizontal offset from the layer below
+  maxStepRatio: number; // maxStepOut as a fraction of the bead width
+}
+
+export interface OverhangAnalysis {
+  segments: number;
+  // Overhang angle (degrees) per toolpath layer and segment: angles[layer * segments + s]
+  angles: Float32Array;
+  layers: LayerOverhang[];
+  worst: LayerOverhang[]; // Highest maxAngle first
+  maxAngle: number;
+  meanAngle: number;
+  beadWidth: number; // mm, outer bead
+}
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Overhang of the outer wall, measured between consecutive printed layers the
+ * way the nozzle sees it: at every angle, how far the bead is placed in or out
+ * from the bead below. Leaning in is as unsupported as leaning out for a thin
+ * wall, so both count. The first layer sits on the bed and has no overhang.
+ */
+export const analyzeOverhang = (params: VesselParams, textureData: TextureData | null): OverhangAnalysis => {
+  const { layers, segments, height, nozzleDiameter } = params;
+  const layerHeight = height / layers;
+  const beadWidth = params.gcodeMode === 'layered' ? getPerimeterLayout(params).width : nozzleDiameter;
+
+  // Outer wall radius of each printed layer (layer k is printed at v = (k + 1) / layers)
+  const radii = new Float32Array(layers * segments);
+  for (let layer = 0; layer < layers; layer++) {
+    const v = (layer + 1) / layers;
+    for (let s = 0; s < segments; s++) {
+      radii[layer * segments + s] = calculateVesselPoint(params, s / segments, v, 0, 0, 1, textureData).r;
+    }
+  }
+
+  const angles = new Float32Array(layers * segments);
+  const layerStats: LayerOverhang[] = [];
+  let total = 0;
+  let maxAngle = 0;
+
+  for (let layer = 0; layer < layers; layer++) {
+    let layerMax = 0;
+    let layerSum = 0;
+    let maxStep = 0;
+    for (let s = 0; s < segments; s++) {
+      const i = layer * segments + s;
+      const step = layer === 0 ? 0 : Math.abs(radii[i] - radii[i - segments]);
+      const angle = toDegrees(Math.atan2(step, layerHeight));
+      angles[i] = angle;
+      layerSum += angle;
+      if (angle > layerMax) layerMax = angle;
+      if (step > maxStep) maxStep = step;
+    }
+    const meanAngle = layerSum / segments;
+    total += meanAngle;
+    if (layerMax > maxAngle) maxAngle = layerMax;
+    layerStats.push({
+      layer,
+      z: (layer + 1) * layerHeight,
+      maxAngle: layerMax,
+      meanAngle,
+      maxStepOut: maxStep,
+      maxStepRatio: maxStep / beadWidth,
+    });
+  }
+
+  const worst = [...layerStats]
+    .sort((a, b) => b.maxAngle - a.maxAngle)
+    .slice(0, WORST_LAYER_COUNT)
+    .filter(l => l.maxAngle > 0);
+
+  return {
+    segments,
+    angles,
+    layers: layerStats,
+    worst,
+    maxAngle,
+    meanAngle: total / layers,
+    beadWidth,
+  };
+};
+
+/** Overhang angle at a point in mesh space (Y up), looked up by height and angle. */
+export const overhangAt = (analysis: OverhangAnalysis, params: VesselParams, x: number, y: number, z: number) => {
+  const { layers, height } = params;
+  const { segments, angles } = analysis;
+  const layer = Math.min(layers - 1, Math.max(0, Math.round((y / height) * layers) - 1));
+  const theta = Math.atan2(z, x);
+  const s = Math.round(((theta / (Math.PI * 2)) + 1) * segments) % segments;
+  return angles[layer * segments + s];
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_PARAMS } from './defaults';
+import { createModifier } from './modifiers';
+import { PROJECT_SCHEMA_VERSION, migrateParams } from './project';
+import { PARAM_LIMITS, clampParams, clampToLimit } from './paramLimits';
+
+// The load path: values of any type come in through migrateParams
+const load = (raw: Record<string, unknown>) => clampParams(migrateParams(raw, PROJECT_SCHEMA_VERSION));
+
+describe('clampToLimit', () => {
+  const limit = { min: 0, max: 10, step: 1 };
+
+  it('clamps numbers into the range', () => {
+    expect(clampToLimit(-3, limit, 5)).toBe(0);
+    expect(clampToLimit(42, limit, 5)).toBe(10);
+    expect(clampToLimit(2.5, limit, 5)).toBe(2.5);
+  });
+
+  it('rounds integer limits', () => {
+    expect(clampToLimit(2.6, { ...limit, integer: true }, 5)).toBe(3);
+  });
+
+  it('uses the fallback for anything that is not a finite number', () => {
+    for (const value of ['7', null, undefined, NaN, Infinity, {}]) {
+      expect(clampToLimit(value, limit, 5)).toBe(5);
+    }
+  });
+});
+
+describe('clampParams', () => {
+  it('leaves the defaults unchanged', () => {
+    expect(clampParams(INITIAL_PARAMS)).toEqual(INITIAL_PARAMS);
+  });
+
+  it('clamps numbers to the slider limits', () => {
+    const params = load({ height: 5000, layers: 12.3, wallThickness: 'thick' });
+    expect(params.height).toBe(PARAM_LIMITS.height.max);
+    expect(params.layers).toBe(PARAM_LIMITS.layers.min);
+    expect(params.wallThickness).toBe(INITIAL_PARAMS.wallThickness);
+  });
+
+  it('replaces unknown options and non-boolean flags', () => {
+    const params = load({ exportFormat: 'dwg', gcodeMode: 'zigzag', exportBinary: 'yes', designForFiredSize: 1 });
+    expect(params.exportFormat).toBe(INITIAL_PARAMS.exportFormat);
+    expect(params.gcodeMode).toBe(INITIAL_PARAMS.gcodeMode);
+    expect(params.exportBinary).toBe(INITIAL_PARAMS.exportBinary);
+    expect(params.designForFiredSize).toBe(INITIAL_PARAMS.designForFiredSize);
+  });
+
+  it('only keeps texture images that are data URLs', () => {
+    expect(load({ textureImage: 'https://example.com/a.png' }).textureImage).toBeNull();
+    expect(load({ textureImage: 'data:image/png;base64,AAAA' }).textureImage).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('drops malformed profile points and modifiers', () => {
+    const ripple = { ...createModifier('ripple'), amplitude: 500, frequency: 'high', vStart: 0.8, vEnd: 0.2 };
+    const params = load({
+      profile: [{ v: 0, r: 40 }, { v: 'x', r: 1 }, null, { v: 1, r: 30 }],
+      modifiers: [ripple, { type: 'lathe' }, 'noise'],
+    });
+
+    expect(params.profile).toHaveLength(2);
+    expect(params.modifiers).toHaveLength(1);
+    expect(params.modifiers[0]).toMatchObject({ type: 'ripple', amplitude: 50, frequency: 5, vStart: 0.8, vEnd: 0.8, id: ripple.id });
+  });
+
+  it('rebuilds cross sections and keeps only finite outline points', () => {
+    const params = load({
+      crossSection: { kind: 'outline', outline: [{ x: 1, y: 0 }, { x: NaN, y: 1 }, { x: 0, y: 1 }] },
+      rimCrossSection: 'square',
+    });
+    expect(params.crossSection.kind).toBe('outline');
+    expect(params.crossSection.outline).toEqual([{ x: 1, y: 0 }, { x: 0, y: 1 }]);
+    expect(params.rimCrossSection).toBeNull();
+  });
+
+  it('clamps the custom material and keeps its id fixed', () => {
+    const params = load({ customMaterial: { id: 'stolen', name: 'Mine', yieldStress: -1, maxOverhangAngle: 'steep' } });
+    expect(params.customMaterial.id).toBe(INITIAL_PARAMS.customMaterial.id);
+    expect(params.customMaterial.name).toBe('Mine');
+    expect(params.customMaterial.yieldStress).toBeGreaterThan(0);
+    expect(params.customMaterial.maxOverhangAngle).toBe(INITIAL_PARAMS.customMaterial.maxOverhangAngle);
+  });
+});
@@ -0,0 +1,264 @@
+import {
+  VesselParams, ModifierType, SurfaceModifier, ClayMaterial, CrossSection, CrossSectionKind, ProfilePoint,
+  ExportFormat, GcodeMode, SeamPlacement, FloorPattern, LayerTimeMode, NoiseType
+} from '../types';
+import { INITIAL_PARAMS } from './defaults';
+import { MODIFIER_LABELS, createModifier } from './modifiers';
+import { CROSS_SECTION_LABELS, createCrossSection } from './crossSection';
+import { normalizeProfile } from './profile';
+import { CUSTOM_MATERIAL_ID } from './materials';
+
+export interface ParamLimit {
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+export interface FieldSpec<K extends string = string> extends ParamLimit {
+  key: K;
+  label: string;
+  unit?: string;
+}
+
+type LimitedParam =
+  | 'height' | 'baseRadius' | 'wallThickness' | 'layers' | 'segments' | 'noiseSeed'
+  | 'nozzleDiameter' | 'filamentDiameter' | 'printSpeed' | 'minLayerTime' | 'seamAngle'
+  | 'floorLayers' | 'floorOverlap' | 'bedOffsetX' | 'bedOffsetY' | 'bedRotation';
+
+/**
+ * Slider ranges in Controls. Designs from links, project files, 3MF files and
+ * the autosave are clamped to them so a hand-edited value cannot break the
+ * preview.
+ */
+export const PARAM_LIMITS: Record<LimitedParam, ParamLimit> = {
+  height: { min: 50, max: 300, step: 1 },
+  baseRadius: { min: 20, max: 100, step: 1 },
+  wallThickness: { min: 0, max: 10, step: 0.5 },
+  layers: { min: 50, max: 400, step: 10, integer: true },
+  segments: { min: 30, max: 200, step: 10, integer: true },
+  noiseSeed: { min: 0, max: 999999, step: 1, integer: true },
+  nozzleDiameter: { min: 0.4, max: 5, step: 0.2 },
+  filamentDiameter: { min: 1.75, max: 40, step: 0.05 },
+  printSpeed: { min: 300, max: 3000, step: 100 },
+  minLayerTime: { min: 0, max: 120, step: 5 },
+  seamAngle: { min: 0, max: 359, step: 1 },
+  floorLayers: { min: 0, max: 10, step: 1, integer: true },
+  floorOverlap: { min: 0, max: 50, step: 5 },
+  // Controls narrows the offsets to the selected printer's bed
+  bedOffsetX: { min: -500, max: 500, step: 1 },
+  bedOffsetY: { min: -500, max: 500, step: 1 },
+  bedRotation: { min: 0, max: 359, step: 1 },
+};
+
+type ModifierOf<T extends ModifierType> = Extract<SurfaceModifier, { type: T }>;
+type NumericKeys<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+
+/** Numeric fields of a modifier type that have their own slider. */
+export type ModifierField<T extends ModifierType> =
+  T extends ModifierType ? Exclude<NumericKeys<ModifierOf<T>>, 'vStart' | 'vEnd'> : never;
+
+// Editable parameters per modifier type (the shared height range is handled separately)
+export const MODIFIER_FIELD_SPECS: { [T in ModifierType]: FieldSpec<ModifierField<T>>[] } = {
+  noise: [
+    { key: 'amplitude', label: 'Amplitude', min: 0, max: 30, step: 0.5, unit: 'mm' },
+    { key: 'scale', label: 'Feature Size', min: 5, max: 150, step: 1, unit: 'mm' },
+    { key: 'octaves', label: 'Octaves', min: 1, max: 8, step: 1, integer: true },
+    { key: 'lacunarity', label: 'Lacunarity', min: 1.2, max: 4, step: 0.1 },
+    { key: 'persistence', label: 'Persistence', min: 0.1, max: 0.9, step: 0.05 },
+    { key: 'seedOffset', label: 'Seed Offset', min: 0, max: 99, step: 1, integer: true },
+  ],
+  ripple: [
+    { key: 'amplitude', label: 'Amplitude', min: 0, max: 50, step: 1, unit: 'mm' },
+    { key: 'frequency', label: 'Frequency', min: 1, max: 20, step: 0.5 },
+  ],
+  twist: [
+    { key: 'amount', label: 'Amount', min: -10, max: 10, step: 0.1, unit: 'rad' },
+  ],
+  texture: [
+    { key: 'depth', label: 'Depth', min: 0, max: 30, step: 0.5, unit: 'mm' },
+  ],
+  ridges: [
+    { key: 'count', label: 'Count', min: 2, max: 96, step: 1, integer: true },
+    { key: 'depth', label: 'Depth', min: -10, max: 10, step: 0.5, unit: 'mm' },
+    { key: 'sharpness', label: 'Sharpness', min: 0.5, max: 10, step: 0.5 },
+  ],
+  facets: [
+    { key: 'count', label: 'Faces', min: 3, max: 24, step: 1, integer: true },
+    { key: 'strength', label: 'Strength', min: 0, max: 1, step: 0.05 },
+  ],
+  bulge: [
+    { key: 'center', label: 'Center', min: 0, max: 1, step: 0.01 },
+    { key: 'width', label: 'Width', min: 0.02, max: 0.5, step: 0.01 },
+    { key: 'amount', label: 'Amount', min: -30, max: 30, step: 1, unit: 'mm' },
+  ],
+};
+
+/** The slider fields of a modifier, each with its current value. */
+export const modifierFields = <T extends ModifierType>(mod: ModifierOf<T>) =>
+  MODIFIER_FIELD_SPECS[mod.type].map(spec => ({ spec, value: mod[spec.key] as number }));
+
+type MaterialField = Exclude<keyof ClayMaterial, 'id' | 'name'>;
+
+// Also shown next to the overhang report
+export const MAX_OVERHANG_SPEC: FieldSpec<MaterialField> = {
+  key: 'maxOverhangAngle', label: 'Max Overhang', min: 10, max: 60, step: 1, unit: '°',
+};
+
+export const MATERIAL_FIELD_SPECS: FieldSpec<MaterialField>[] = [
+  { key: 'wetDensity', label: 'Wet Density', min: 1.4, max: 2.2, step: 0.01, unit: 'g/cm³' },
+  { key: 'waterContent', label: 'Water Content', min: 10, max: 35, step: 0.5, unit: '%' },
+  { key: 'dryingShrinkage', label: 'Drying Shrinkage', min: 0, max: 12, step: 0.5, unit: '%' },
+  { key: 'firingShrinkage', label: 'Firing Shrinkage', min: 0, max: 12, step: 0.5, unit: '%' },
+  { key: 'verticalShrinkageRatio', label: 'Vertical / Horizontal Shrinkage', min: 1, max: 1.5, step: 0.05, unit: '×' },
+  { key: 'layerHeightRatio', label: 'Layer Height / Nozzle', min: 0.3, max: 1, step: 0.05 },
+  MAX_OVERHANG_SPEC,
+  { key: 'extrusionMultiplier', label: 'Extrusion Multiplier', min: 0.5, max: 1.5, step: 0.01, unit: '×' },
+  { key: 'yieldStress', label: 'Yield Stress', min: 500, max: 10000, step: 100, unit: 'Pa' },
+  { key: 'stiffeningRate', label: 'Stiffening', min: 0, max: 300, step: 5, unit: 'Pa/min' },
+];
+
+type CrossSectionField = Exclude<keyof CrossSection, 'kind' | 'outline'>;
+
+const SECTION_ROTATION: FieldSpec<CrossSectionField> = { key: 'rotation', label: 'Rotation', min: 0, max: 180, step: 1, unit: '°' };
+const SECTION_ASPECT: FieldSpec<CrossSectionField> = { key: 'aspect', label: 'Aspect', min: 0.3, max: 1.5, step: 0.05 };
+const NOTCH_DEPTH: FieldSpec<CrossSectionField> = { key: 'depth', label: 'Depth', min: 0, max: 0.8, step: 0.02 };
+
+// Sliders the cross-section editor shows for each shape, in order
+export const CROSS_SECTION_FIELD_SPECS: Record<CrossSectionKind, FieldSpec<CrossSectionField>[]> = {
+  circle: [SECTION_ASPECT],
+  polygon: [
+    { key: 'sides', label: 'Sides', min: 3, max: 12, step: 1, integer: true },
+    { key: 'rounding', label: 'Corner Rounding', min: 0, max: 1, step: 0.05 },
+    SECTION_ROTATION,
+    SECTION_ASPECT,
+  ],
+  superellipse: [
+    { key: 'exponent', label: 'Exponent', min: 1, max: 10, step: 0.1 },
+    SECTION_ROTATION,
+    SECTION_ASPECT,
+  ],
+  star: [{ key: 'sides', label: 'Points', min: 2, max: 16, step: 1, integer: true }, NOTCH_DEPTH, SECTION_ROTATION, SECTION_ASPECT],
+  petal: [{ key: 'sides', label: 'Petals', min: 2, max: 16, step: 1, integer: true }, NOTCH_DEPTH, SECTION_ROTATION, SECTION_ASPECT],
+  outline: [SECTION_ROTATION, SECTION_ASPECT],
+};
+
+// Widest range of each field over every shape, for fields the shape itself does not use
+const CROSS_SECTION_LIMITS = Object.values(CROSS_SECTION_FIELD_SPECS).flat().reduce(
+  (limits, spec) => {
+    const prev = limits[spec.key];
+    limits[spec.key] = prev ? { ...prev, min: Math.min(prev.min, spec.min), max: Math.max(prev.max, spec.max) } : spec;
+    return limits;
+  },
+  {} as Partial<Record<CrossSectionField, ParamLimit>>
+);
+
+const EXPORT_FORMATS: ExportFormat[] = ['obj', 'stl', 'ply', '3mf', 'glb', 'gcode'];
+const GCODE_MODES: GcodeMode[] = ['spiral', 'layered'];
+const SEAM_PLACEMENTS: SeamPlacement[] = ['aligned', 'scattered'];
+const FLOOR_PATTERNS: FloorPattern[] = ['concentric', 'rectilinear'];
+const LAYER_TIME_MODES: LayerTimeMode[] = ['warn', 'slow'];
+const NOISE_TYPES: NoiseType[] = ['perlin', 'simplex'];
+const MODIFIER_TYPES = Object.keys(MODIFIER_LABELS) as ModifierType[];
+const CROSS_SECTION_KINDS = Object.keys(CROSS_SECTION_LABELS) as CrossSectionKind[];
+
+// A finite number inside the limit, or the fallback
+export const clampToLimit = (value: unknown, limit: ParamLimit, fallback: number): number => {
+  const n = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  const clamped = Math.min(limit.max, Math.max(limit.min, n));
+  return limit.integer ? Math.round(clamped) : clamped;
+};
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFinitePoint = (p: unknown, keys: string[]) =>
+  isObject(p) && keys.every(key => typeof p[key] === 'number' && Number.isFinite(p[key]));
+
+const clampCrossSection = (raw: unknown): CrossSection | null => {
+  if (!isObject(raw)) return null;
+  const base = createCrossSection(oneOf(raw.kind, CROSS_SECTION_KINDS, 'circle'));
+  const section = { ...base };
+  const specs = CROSS_SECTION_FIELD_SPECS[section.kind];
+  for (const key of Object.keys(CROSS_SECTION_LIMITS) as CrossSectionField[]) {
+    const limit = specs.find(spec => spec.key === key) ?? CROSS_SECTION_LIMITS[key];
+    if (limit) section[key] = clampToLimit(raw[key], limit, base[key]);
+  }
+  section.outline = Array.isArray(raw.outline)
+    ? (raw.outline.filter(p => isFinitePoint(p, ['x', 'y'])) as CrossSection['outline'])
+    : [];
+  return section;
+};
+
+// Normalized height range every modifier acts on
+const MODIFIER_RANGE: ParamLimit = { min: 0, max: 1, step: 0.01 };
+// Shrinkage compensation never stretches a pattern further than this
+const STRETCH_RANGE: ParamLimit = { min: 0.5, max: 2, step: 0.01 };
+
+const clampModifier = (raw: unknown): SurfaceModifier | null => {
+  if (!isObject(raw) || !MODIFIER_TYPES.includes(raw.type as ModifierType)) return null;
+  const base = createModifier(raw.type as ModifierType);
+  const vStart = clampToLimit(raw.vStart, MODIFIER_RANGE, 0);
+  const mod: SurfaceModifier = {
+    ...base,
+    ...Object.fromEntries(modifierFields(base).map(({ spec, value }) => [spec.key, clampToLimit(raw[spec.key], spec, value)])),
+    vStart,
+    vEnd: Math.max(vStart, clampToLimit(raw.vEnd, MODIFIER_RANGE, 1)),
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : true,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : base.id,
+  };
+  if (mod.type === 'noise') mod.noiseType = oneOf(raw.noiseType, NOISE_TYPES, mod.noiseType);
+  if (mod.type === 'noise' || mod.type === 'ripple') {
+    mod.verticalStretch = clampToLimit(raw.verticalStretch, STRETCH_RANGE, 1);
+  }
+  return mod;
+};
+
+/**
+ * Forces every value of a design into the range the editor can produce:
+ * numbers are clamped to the slider limits, unknown options and malformed
+ * nested values fall back to INITIAL_PARAMS. Expects params already brought
+ * up to date by migrateParams, so every field is present.
+ */
+export const clampParams = (params: VesselParams): VesselParams => {
+  // Values may still have any type: migrateParams only fills in missing fields
+  const raw: Partial<Record<keyof VesselParams, unknown>> = params;
+  const clamped = { ...params };
+
+  for (const key of Object.keys(PARAM_LIMITS) as LimitedParam[]) {
+    clamped[key] = clampToLimit(raw[key], PARAM_LIMITS[key], INITIAL_PARAMS[key]);
+  }
+
+  clamped.exportFormat = oneOf(raw.exportFormat, EXPORT_FORMATS, INITIAL_PARAMS.exportFormat);
+  clamped.gcodeMode = oneOf(raw.gcodeMode, GCODE_MODES, INITIAL_PARAMS.gcodeMode);
+  clamped.seamPlacement = oneOf(raw.seamPlacement, SEAM_PLACEMENTS, INITIAL_PARAMS.seamPlacement);
+  clamped.floorPattern = oneOf(raw.floorPattern, FLOOR_PATTERNS, INITIAL_PARAMS.floorPattern);
+  clamped.layerTimeMode = oneOf(raw.layerTimeMode, LAYER_TIME_MODES, INITIAL_PARAMS.layerTimeMode);
+  for (const key of ['exportBinary', 'exportTexture', 'exportObjMaterial', 'designForFiredSize'] as const) {
+    clamped[key] = typeof raw[key] === 'boolean' ? raw[key] : INITIAL_PARAMS[key];
+  }
+  if (typeof raw.printerProfileId !== 'string') clamped.printerProfileId = INITIAL_PARAMS.printerProfileId;
+  if (typeof raw.textureImage !== 'string' || !raw.textureImage.startsWith('data:image/')) clamped.textureImage = null;
+
+  clamped.profile = Array.isArray(raw.profile)
+    ? normalizeProfile(raw.profile.filter(p => isFinitePoint(p, ['v', 'r'])) as ProfilePoint[])
+    : INITIAL_PARAMS.profile;
+  clamped.crossSection = clampCrossSection(raw.crossSection) ?? createCrossSection('circle');
+  clamped.rimCrossSection = clampCrossSection(raw.rimCrossSection);
+  clamped.modifiers = Array.isArray(raw.modifiers)
+    ? raw.modifiers.map(clampModifier).filter((mod): mod is SurfaceModifier => mod !== null)
+    : INITIAL_PARAMS.modifiers;
+
+  const material = isObject(raw.customMaterial) ? raw.customMaterial : {};
+  const customMaterial = { ...INITIAL_PARAMS.customMaterial };
+  for (const spec of MATERIAL_FIELD_SPECS) {
+    customMaterial[spec.key] = clampToLimit(material[spec.key], spec, INITIAL_PARAMS.customMaterial[spec.key]);
+  }
+  if (typeof material.name === 'string') customMaterial.name = material.name;
+  clamped.customMaterial = { ...customMaterial, id: CUSTOM_MATERIAL_ID };
+
+  return clamped;
+};
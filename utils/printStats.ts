@@ -0,0 +1,47 @@
+import { VesselParams, PrintStats, TextureData, PrinterProfile, Toolpath } from '../types';
+import { generateGCODE } from './gcode';
+import { parseGCODE } from './gcodeParser';
+import { estimatePrintTime } from './printTime';
+import { resolveMaterial, materialDensity } from './materials';
+
+/**
+ * Stats for the exact program the G-code export writes: the generated file is
+ * parsed back and walked move by move, so floors, travel, header moves and
+ * the printer's acceleration all count.
+ */
+export const calculatePrintStats = (
+  params: VesselParams,
+  printer: PrinterProfile,
+  textureData: TextureData | null = null,
+  toolpath: Toolpath = parseGCODE(generateGCODE(params, printer, textureData))
+): PrintStats => {
+  const { layers, height, filamentDiameter } = params;
+  const layerHeight = height / layers;
+  const time = estimatePrintTime(toolpath, printer);
+
+  // Filament pushed by extruding moves (retract/unretract pairs cancel out)
+  let filamentLengthMM = 0;
+  let prevE = 0;
+  for (const move of toolpath.moves) {
+    if (move.extrude) filamentLengthMM += move.e - prevE;
+    prevE = move.e;
+  }
+
+  // Filament Length (Input) = Vol / (PI * (FilamentDiam/2)^2)
+  const filamentArea = Math.PI * Math.pow(filamentDiameter / 2, 2);
+  const extrudedVol = filamentLengthMM * filamentArea;
+
+  // Wet weight from the clay body's density; drying drives off its water
+  const material = resolveMaterial(params);
+  const weight = extrudedVol * materialDensity(material);
+
+  return {
+    estimatedTime: time.total / 60,
+    filamentLength: filamentLengthMM / 1000, // meters
+    filamentWeight: weight,
+    dryWeight: weight * (1 - material.waterContent / 100),
+    layerHeight: layerHeight,
+    totalLayers: layers,
+    layerTimes: time.layerTimes,
+  };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { PrinterProfile } from '../types';
+import { parseGCODE } from './gcodeParser';
+import { DEFAULT_PRINTER_PROFILE } from './printerProfiles';
+import { estimatePrintTime, getFastLayers } from './printTime';
+
+const printer: PrinterProfile = {
+  ...DEFAULT_PRINTER_PROFILE,
+  maxAcceleration: 500,
+  junctionDeviation: 0.05,
+  maxPrintSpeed: 6000,
+  maxTravelSpeed: 6000,
+};
+
+const estimate = (gcode: string, profile = printer) => estimatePrintTime(parseGCODE(gcode), profile);
+
+describe('estimatePrintTime', () => {
+  it('accelerates from and brakes to rest on a single move', () => {
+    // 20 mm/s at 500 mm/s²: 0.04 s and 0.4 mm for each ramp
+    const { total } = estimate('G1 X100 E10 F1200');
+    expect(total).toBeCloseTo(0.04 + 0.04 + 99.2 / 20, 6);
+  });
+
+  it('uses a triangle profile when a move is too short to reach the feed', () => {
+    const { total } = estimate('G1 X0.4 E1 F1200');
+    expect(total).toBeCloseTo((2 * Math.sqrt(200)) / 500, 6);
+  });
+
+  it('runs straight through collinear moves', () => {
+    const split = estimate('G1 X50 E5 F1200\nG1 X100 E10');
+    const single = estimate('G1 X100 E10 F1200');
+    expect(split.total).toBeCloseTo(single.total, 6);
+  });
+
+  it('slows for corners and stops for reversals', () => {
+    const straight = estimate('G1 X10 E1 F1200\nG1 X20 E2').total;
+    const corner = estimate('G1 X10 E1 F1200\nG1 X10 Y10 E2').total;
+    const reversal = estimate('G1 X10 E1 F1200\nG1 X0 E2').total;
+    expect(corner).toBeGreaterThan(straight);
+    expect(reversal).toBeGreaterThan(corner);
+  });
+
+  it('takes corners faster with a larger junction deviation', () => {
+    const gcode = 'G1 X10 E1 F1200\nG1 X10 Y10 E2';
+    const tight = estimate(gcode, { ...printer, junctionDeviation: 0.01 }).total;
+    const loose = estimate(gcode, { ...printer, junctionDeviation: 0.5 }).total;
+    expect(loose).toBeLessThan(tight);
+  });
+
+  it('caps the feed at the printer maximum', () => {
+    const capped = estimate('G1 X100 E10 F60000', { ...printer, maxPrintSpeed: 1200, maxTravelSpeed: 1200 });
+    const nominal = estimate('G1 X100 E10 F1200');
+    expect(capped.total).toBeCloseTo(nominal.total, 6);
+  });
+
+  it('splits the total over moves and layers', () => {
+    const result = estimate([
+      '; Layer 0',
+      'G1 X0 Y0 Z0.5 F1200',
+      'G1 X10 E1',
+      '; Layer 1',
+      'G1 Z1',
+      'G1 X0 E2',
+    ].join('\n'));
+
+    const moveSum = Array.from(result.moveTimes).reduce((a, b) => a + b, 0);
+    expect(moveSum).toBeCloseTo(result.total, 9);
+    expect(result.layerTimes).toHaveLength(2);
+    expect(result.layerTimes[0] + result.layerTimes[1]).toBeCloseTo(result.total, 9);
+    expect(result.layerTimes[1]).toBeGreaterThan(0);
+  });
+});
+
+describe('getFastLayers', () => {
+  it('lists layers shorter than the minimum layer time', () => {
+    expect(getFastLayers([30, 5, 12, 2], 10)).toEqual([1, 3]);
+  });
+
+  it('is disabled by a zero minimum', () => {
+    expect(getFastLayers([1, 2], 0)).toEqual([]);
+  });
+});
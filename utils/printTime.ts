@@ -0,0 +1,110 @@
+import { Toolpath, PrinterProfile } from '../types';
+
+// Feed used when a file never sets one (mm/min)
+const FALLBACK_FEED = 1200;
+// Floor for corner speeds so reversals still finish in finite time (mm/s)
+const MIN_JUNCTION_SPEED = 0.1;
+
+export interface PrintTimeEstimate {
+  total: number; // Seconds
+  moveTimes: Float64Array; // Seconds per toolpath move
+  layerTimes: number[]; // Seconds per toolpath layer, travel included
+}
+
+// Time to cover `length` starting at vEntry and ending at vExit, never above
+// vMax, accelerating and braking at `accel` (trapezoid or triangle profile)
+const trapezoidTime = (length: number, vEntry: number, vExit: number, vMax: number, accel: number) => {
+  const accelDist = (vMax * vMax - vEntry * vEntry) / (2 * accel);
+  const decelDist = (vMax * vMax - vExit * vExit) / (2 * accel);
+  if (accelDist + decelDist <= length) {
+    return (vMax - vEntry) / accel + (vMax - vExit) / accel + (length - accelDist - decelDist) / vMax;
+  }
+  // Never reaches vMax: peak where the two ramps meet
+  const peak = Math.sqrt((2 * accel * length + vEntry * vEntry + vExit * vExit) / 2);
+  return (peak - vEntry) / accel + (peak - vExit) / accel;
+};
+
+/**
+ * Estimates how long the printer takes to run a toolpath, the way firmware
+ * plans it: every move follows a trapezoidal speed profile at the printer's
+ * acceleration, and corners are taken at the speed the junction deviation
+ * allows (Grbl/Marlin model). The planner looks ahead over the whole program.
+ */
+export const estimatePrintTime = (toolpath: Toolpath, printer: PrinterProfile): PrintTimeEstimate => {
+  const { moves, origin } = toolpath;
+  const count = moves.length;
+  const accel = Math.max(1, printer.maxAcceleration);
+  const deviation = Math.max(0, printer.junctionDeviation);
+  const speedCap = Math.max(printer.maxTravelSpeed, printer.maxPrintSpeed) / 60;
+
+  const lengths = new Float64Array(count);
+  const speeds = new Float64Array(count); // Nominal mm/s
+  const dirs = new Float64Array(count * 3);
+
+  let prev = origin;
+  moves.forEach((move, i) => {
+    const dx = move.x - prev.x;
+    const dy = move.y - prev.y;
+    const dz = move.z - prev.z;
+    const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    lengths[i] = length;
+    speeds[i] = Math.min((move.feed > 0 ? move.feed : FALLBACK_FEED) / 60, speedCap);
+    if (length > 0) {
+      dirs[i * 3] = dx / length;
+      dirs[i * 3 + 1] = dy / length;
+      dirs[i * 3 + 2] = dz / length;
+    }
+    prev = move;
+  });
+
+  // junction[i] = speed limit entering move i; the machine starts and ends at rest
+  const junction = new Float64Array(count + 1);
+  for (let i = 1; i < count; i++) {
+    const cos = -(dirs[i * 3 - 3] * dirs[i * 3] + dirs[i * 3 - 2] * dirs[i * 3 + 1] + dirs[i * 3 - 1] * dirs[i * 3 + 2]);
+    let limit: number;
+    if (lengths[i - 1] === 0 || lengths[i] === 0 || cos > 0.999999) {
+      // Full reversal (or no direction): stop at the corner
+      limit = MIN_JUNCTION_SPEED;
+    } else if (cos < -0.999999) {
+      // Straight through
+      limit = Infinity;
+    } else {
+      // Corner treated as an arc that deviates `deviation` mm from the sharp path
+      const sinHalf = Math.sqrt((1 - cos) / 2);
+      const radius = (deviation * sinHalf) / (1 - sinHalf);
+      limit = Math.max(MIN_JUNCTION_SPEED, Math.sqrt(accel * radius));
+    }
+    junction[i] = Math.min(limit, speeds[i - 1], speeds[i]);
+  }
+
+  // Backward pass: every move must be able to brake to its exit speed
+  for (let i = count - 1; i >= 0; i--) {
+    junction[i] = Math.min(junction[i], Math.sqrt(junction[i + 1] * junction[i + 1] + 2 * accel * lengths[i]));
+  }
+  // Forward pass: and accelerate up to it
+  for (let i = 0; i < count; i++) {
+    junction[i + 1] = Math.min(junction[i + 1], Math.sqrt(junction[i] * junction[i] + 2 * accel * lengths[i]));
+  }
+
+  const moveTimes = new Float64Array(count);
+  const layerTimes = new Array<number>(toolpath.layers.length).fill(0);
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const time = lengths[i] > 0 ? trapezoidTime(lengths[i], junction[i], junction[i + 1], speeds[i], accel) : 0;
+    moveTimes[i] = time;
+    layerTimes[moves[i].layer] += time;
+    total += time;
+  }
+
+  return { total, moveTimes, layerTimes };
+};
+
+/** Indices of layers that finish faster than the clay can stiffen. */
+export const getFastLayers = (layerTimes: number[], minLayerTime: number): number[] => {
+  if (minLayerTime <= 0) return [];
+  const fast: number[] = [];
+  layerTimes.forEach((t, i) => {
+    if (t < minLayerTime) fast.push(i);
+  });
+  return fast;
+};
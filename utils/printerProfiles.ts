@@ -0,0 +1,239 @@
+import { PrinterProfile, BedShape, OriginConvention, Kinematics, ExtruderType } from '../types';
+
+const STORAGE_KEY = 'ceramicflow.printerProfiles';
+
+export const BUILTIN_PRINTER_PROFILES: PrinterProfile[] = [
+  {
+    id: 'marlin',
+    name: 'Generic (Marlin)',
+    builtIn: true,
+    bedShape: 'rectangular',
+    bedWidth: 220,
+    bedDepth: 220,
+    maxHeight: 250,
+    origin: 'front-left',
+    kinematics: 'cartesian',
+    extruderType: 'filament',
+    startGcode: `G28 ; Home
+G1 Z5 F{printSpeed} ; Lift nozzle`,
+    endGcode: `G1 Z{safeZ} F{printSpeed} ; Move up safety
+G28 X0 Y0 ; Home X Y
+M30 ; End of program`,
+    retractLength: 2,
+    retractSpeed: 2400,
+    maxPrintSpeed: 3000,
+    maxTravelSpeed: 6000,
+    maxAcceleration: 1000,
+    junctionDeviation: 0.05,
+  },
+  {
+    id: 'wasp',
+    name: 'WASP / Delta',
+    builtIn: true,
+    bedShape: 'circular',
+    bedWidth: 400,
+    bedDepth: 400,
+    maxHeight: 1000,
+    origin: 'center',
+    kinematics: 'delta',
+    extruderType: 'auger',
+    startGcode: `G28 ; Home Delta
+G1 Z15 F{printSpeed} ; Move up
+M204 S500 ; Low acceleration for clay`,
+    endGcode: `G1 Z{safeZ} F{printSpeed} ; Move up safety
+G28 ; Home Delta
+M30 ; End of program`,
+    retractLength: 0,
+    retractSpeed: 1200,
+    maxPrintSpeed: 3000,
+    maxTravelSpeed: 4800,
+    maxAcceleration: 500,
+    junctionDeviation: 0.05,
+  },
+  {
+    id: 'potterbot',
+    name: 'Potterbot',
+    builtIn: true,
+    bedShape: 'rectangular',
+    bedWidth: 254,
+    bedDepth: 254,
+    maxHeight: 305,
+    origin: 'center',
+    kinematics: 'cartesian',
+    extruderType: 'ram',
+    startGcode: `G28 ; Home
+G1 Z10 ; Lift
+G92 E0 ; Reset Extruder`,
+    endGcode: `G1 Z{safeZ} F{printSpeed} ; Move up safety
+G28 X0 Y0 ; Home X Y
+M30 ; End of program`,
+    retractLength: 0,
+    retractSpeed: 1200,
+    maxPrintSpeed: 2400,
+    maxTravelSpeed: 3600,
+    maxAcceleration: 500,
+    junctionDeviation: 0.08,
+  },
+];
+
+export const DEFAULT_PRINTER_PROFILE = BUILTIN_PRINTER_PROFILES[0];
+
+// Placeholders available in start/end G-code templates
+export const TEMPLATE_VARIABLES = [
+  'printerName', 'nozzleDiameter', 'filamentDiameter', 'layerHeight', 'totalLayers',
+  'printSpeed', 'travelSpeed', 'height', 'safeZ', 'bedWidth', 'bedDepth',
+  'retractLength', 'retractSpeed',
+] as const;
+
+export type TemplateVariables = Record<(typeof TEMPLATE_VARIABLES)[number], string | number>;
+
+/**
+ * Replaces {variable} placeholders. Unknown placeholders are left untouched so
+ * firmware-specific braces survive.
+ */
+export const applyTemplate = (template: string, variables: TemplateVariables): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in variables ? String(variables[key as keyof TemplateVariables]) : match
+  );
+
+export const resolvePrinterProfile = (profiles: PrinterProfile[], id: string): PrinterProfile =>
+  profiles.find(p => p.id === id) ?? DEFAULT_PRINTER_PROFILE;
+
+const createProfileId = () => `custom-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+/** New user profile copied from an existing one. */
+export const duplicatePrinterProfile = (source: PrinterProfile, name = `${source.name} (Copy)`): PrinterProfile => ({
+  ...source,
+  id: createProfileId(),
+  name,
+  builtIn: false,
+});
+
+/** Numeric settings of a printer profile. */
+export type PrinterNumberField = {
+  [K in keyof PrinterProfile]: PrinterProfile[K] extends number ? K : never
+}[keyof PrinterProfile];
+
+// May be 0; every other number must be positive
+const ZERO_ALLOWED: PrinterNumberField[] = ['retractLength', 'junctionDeviation'];
+
+/** True for a value the profile's `key` can take (a zero speed or bed size would break G-code and estimates). */
+export const isValidProfileNumber = (key: PrinterNumberField, value: number) =>
+  Number.isFinite(value) && (value > 0 || (value === 0 && ZERO_ALLOWED.includes(key)));
+
+const BED_SHAPES: BedShape[] = ['rectangular', 'circular'];
+const ORIGINS: OriginConvention[] = ['center', 'front-left'];
+const KINEMATICS: Kinematics[] = ['cartesian', 'delta'];
+const EXTRUDER_TYPES: ExtruderType[] = ['filament', 'ram', 'auger'];
+
+/**
+ * Builds a valid user profile from untrusted JSON. Missing fields fall back to
+ * the generic profile; a present field of the wrong type, an unknown option or
+ * a number the editor would not accept is an error. A missing or already
+ * `taken` id is replaced, and the profile's id is added to `taken`.
+ */
+const sanitizeProfile = (raw: unknown, taken: Set<string>): PrinterProfile => {
+  if (!raw || typeof raw !== 'object') throw new Error('Printer profile must be an object');
+  const input = raw as Record<string, unknown>;
+  const base = DEFAULT_PRINTER_PROFILE;
+  const invalid = (key: string) =>
+    new Error(`Invalid value for "${key}" in printer profile "${String(input.name ?? '')}"`);
+
+  const text = (key: 'id' | 'name' | 'startGcode' | 'endGcode'): string => {
+    if (!(key in input)) return base[key];
+    const value = input[key];
+    if (typeof value !== 'string') throw invalid(key);
+    return value;
+  };
+  const number = (key: PrinterNumberField): number => {
+    if (!(key in input)) return base[key];
+    const value = input[key];
+    if (typeof value !== 'number' || !isValidProfileNumber(key, value)) throw invalid(key);
+    return value;
+  };
+  const option = <K extends 'bedShape' | 'origin' | 'kinematics' | 'extruderType'>(
+    key: K,
+    options: PrinterProfile[K][]
+  ): PrinterProfile[K] => {
+    if (!(key in input)) return base[key];
+    const match = options.find(option => option === input[key]);
+    if (match === undefined) throw invalid(key);
+    return match;
+  };
+
+  const profile: PrinterProfile = {
+    id: text('id'),
+    name: text('name'),
+    builtIn: false,
+    bedShape: option('bedShape', BED_SHAPES),
+    bedWidth: number('bedWidth'),
+    bedDepth: number('bedDepth'),
+    maxHeight: number('maxHeight'),
+    origin: option('origin', ORIGINS),
+    kinematics: option('kinematics', KINEMATICS),
+    extruderType: option('extruderType', EXTRUDER_TYPES),
+    startGcode: text('startGcode'),
+    endGcode: text('endGcode'),
+    retractLength: number('retractLength'),
+    retractSpeed: number('retractSpeed'),
+    maxPrintSpeed: number('maxPrintSpeed'),
+    maxTravelSpeed: number('maxTravelSpeed'),
+    maxAcceleration: number('maxAcceleration'),
+    junctionDeviation: number('junctionDeviation'),
+  };
+
+  // Imported profiles never shadow built-ins or each other
+  if (!profile.id || taken.has(profile.id)) {
+    profile.id = createProfileId();
+  }
+  taken.add(profile.id);
+  return profile;
+};
+
+/**
+ * Parses a profile export (single profile or array of profiles). Profiles
+ * whose id is a built-in's or in `existingIds` get a fresh one, so importing
+ * an exported profile again adds a copy instead of a duplicate id.
+ */
+export const parsePrinterProfiles = (json: string, existingIds: string[] = []): PrinterProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Printer profile file is not valid JSON');
+  }
+  const list = Array.isArray(data) ? data : [data];
+  const taken = new Set([...BUILTIN_PRINTER_PROFILES.map(p => p.id), ...existingIds]);
+  return list.map(raw => sanitizeProfile(raw, taken));
+};
+
+export const serializePrinterProfiles = (profiles: PrinterProfile[]): string =>
+  JSON.stringify(profiles.map(({ builtIn, ...rest }) => rest), null, 2);
+
+export const loadUserPrinterProfiles = (): PrinterProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    // Profiles saved before a check was added may fail it; only those are dropped
+    const loaded: PrinterProfile[] = [];
+    for (const entry of JSON.parse(stored) as unknown[]) {
+      try {
+        loaded.push(...parsePrinterProfiles(JSON.stringify(entry), loaded.map(p => p.id)));
+      } catch (err) {
+        console.error('Skipped an invalid saved printer profile', err);
+      }
+    }
+    return loaded;
+  } catch (err) {
+    console.error('Failed to load printer profiles', err);
+    return [];
+  }
+};
+
+export const saveUserPrinterProfiles = (profiles: PrinterProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePrinterProfiles(profiles.filter(p => !p.builtIn)));
+  } catch (err) {
+    console.error('Failed to save printer profiles', err);
+  }
+};
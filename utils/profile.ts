@@ -0,0 +1,101 @@
+import { ProfilePoint } from '../types';
+
+// Silhouette presets. `v` is normalized height (0 = foot, 1 = rim),
+// `r` is a radius multiplier applied to baseRadius.
+export const PROFILE_PRESETS: Record<string, ProfilePoint[]> = {
+  cylinder: [
+    { v: 0, r: 1 },
+    { v: 1, r: 1 },
+  ],
+  vase: [
+    { v: 0, r: 0.8 },
+    { v: 0.35, r: 1.15 },
+    { v: 0.75, r: 0.7 },
+    { v: 1, r: 0.85 },
+  ],
+  bowl: [
+    { v: 0, r: 0.5 },
+    { v: 0.3, r: 1.1 },
+    { v: 0.7, r: 1.45 },
+    { v: 1, r: 1.6 },
+  ],
+  bottle: [
+    { v: 0, r: 0.9 },
+    { v: 0.45, r: 1 },
+    { v: 0.65, r: 0.6 },
+    { v: 0.8, r: 0.3 },
+    { v: 1, r: 0.3 },
+  ],
+  amphora: [
+    { v: 0, r: 0.4 },
+    { v: 0.15, r: 0.6 },
+    { v: 0.5, r: 1.3 },
+    { v: 0.8, r: 0.55 },
+    { v: 0.9, r: 0.45 },
+    { v: 1, r: 0.6 },
+  ],
+};
+
+export const PROFILE_MIN_RADIUS = 0.1;
+export const PROFILE_MAX_RADIUS = 2;
+
+/**
+ * Sorts points by height, pins the first and last point to the foot and rim
+ * and clamps radii to the editable range. Guarantees at least two points.
+ */
+export const normalizeProfile = (points: ProfilePoint[]): ProfilePoint[] => {
+  const sorted = points
+    .map(p => ({
+      v: Math.min(1, Math.max(0, p.v)),
+      r: Math.min(PROFILE_MAX_RADIUS, Math.max(PROFILE_MIN_RADIUS, p.r)),
+    }))
+    .sort((a, b) => a.v - b.v);
+
+  if (sorted.length === 0) return PROFILE_PRESETS.cylinder.map(p => ({ ...p }));
+  if (sorted.length === 1) return [{ v: 0, r: sorted[0].r }, { v: 1, r: sorted[0].r }];
+
+  sorted[0].v = 0;
+  sorted[sorted.length - 1].v = 1;
+  return sorted;
+};
+
+/**
+ * Evaluates the silhouette at normalized height v.
+ * Uses a Catmull-Rom style cubic Hermite spline parameterized by height, so
+ * the curve passes through every control point and stays a function of v
+ * (no loops back over itself, which a vessel wall cannot print).
+ * Expects the points sorted by v (see normalizeProfile).
+ */
+export const sampleProfile = (points: ProfilePoint[], v: number): number => {
+  const n = points.length;
+  if (n === 0) return 1;
+  if (n === 1 || v <= points[0].v) return points[0].r;
+  if (v >= points[n - 1].v) return points[n - 1].r;
+
+  // Locate segment
+  let i = 0;
+  while (i < n - 2 && v > points[i + 1].v) i++;
+
+  const p0 = points[Math.max(0, i - 1)];
+  const p1 = points[i];
+  const p2 = points[i + 1];
+  const p3 = points[Math.min(n - 1, i + 2)];
+
+  const span = p2.v - p1.v;
+  if (span <= 1e-6) return p2.r;
+
+  // Tangents as finite differences over the neighbouring points (dr/dv)
+  const m1 = (p2.r - p0.r) / Math.max(p2.v - p0.v, 1e-6);
+  const m2 = (p3.r - p1.r) / Math.max(p3.v - p1.v, 1e-6);
+
+  const t = (v - p1.v) / span;
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  const h00 = 2 * t3 - 3 * t2 + 1;
+  const h10 = t3 - 2 * t2 + t;
+  const h01 = -2 * t3 + 3 * t2;
+  const h11 = t3 - t2;
+
+  return h00 * p1.r + h10 * span * m1 + h01 * p2.r + h11 * span * m2;
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_PARAMS } from './defaults';
+import { CUSTOM_MATERIAL_ID, DEFAULT_MATERIAL } from './materials';
+import { DEFAULT_PRINTER_PROFILE, duplicatePrinterProfile } from './printerProfiles';
+import { PROFILE_PRESETS } from './profile';
+import { PROJECT_SCHEMA_VERSION, mergeProjectProfile, migrateParams, parseProject, serializeProject } from './project';
+
+// Params as saved by schema version 1
+const VERSION_1 = {
+  height: 120,
+  noiseScale: 4,
+  noiseFrequency: 7,
+  twist: 2,
+  textureInfluence: 3,
+  printerType: 'wasp',
+};
+
+describe('migrateParams', () => {
+  it('turns version 1 params into a modifier stack on a cylinder', () => {
+    const params = migrateParams(VERSION_1, 1);
+
+    expect(params.height).toBe(120);
+    expect(params.printerProfileId).toBe('wasp');
+    expect(params.profile).toEqual(PROFILE_PRESETS.cylinder);
+    expect(params.modifiers.map(m => m.type)).toEqual(['texture', 'twist', 'ripple']);
+    expect(params.modifiers[0]).toMatchObject({ depth: 3 });
+    expect(params.modifiers[1]).toMatchObject({ amount: 2 });
+    expect(params.modifiers[2]).toMatchObject({ amplitude: 4, frequency: 7 });
+    expect(params).not.toHaveProperty('noiseScale');
+    expect(params).not.toHaveProperty('printerType');
+  });
+
+  it('moves changed clay settings of version 2 into a custom material', () => {
+    const params = migrateParams({ clayYieldStress: DEFAULT_MATERIAL.yieldStress * 2 }, 2);
+
+    expect(params.materialId).toBe(CUSTOM_MATERIAL_ID);
+    expect(params.customMaterial).toMatchObject({
+      id: CUSTOM_MATERIAL_ID,
+      yieldStress: DEFAULT_MATERIAL.yieldStress * 2,
+      stiffeningRate: DEFAULT_MATERIAL.stiffeningRate,
+    });
+    expect(params).not.toHaveProperty('clayYieldStress');
+  });
+
+  it('keeps the default material when version 2 clay settings were untouched', () => {
+    const params = migrateParams({ maxOverhangAngle: DEFAULT_MATERIAL.maxOverhangAngle }, 2);
+    expect(params.materialId).toBe(DEFAULT_MATERIAL.id);
+  });
+
+  it('detects the version of params stored without one', () => {
+    expect(migrateParams(VERSION_1).modifiers).toHaveLength(3);
+    expect(migrateParams({ clayYieldStress: 1 }).materialId).toBe(CUSTOM_MATERIAL_ID);
+    expect(migrateParams({ materialId: 'porcelain' }).materialId).toBe('porcelain');
+  });
+
+  it('fills missing fields from the defaults', () => {
+    const params = migrateParams({ height: 80 }, PROJECT_SCHEMA_VERSION);
+    expect(params).toEqual({ ...INITIAL_PARAMS, height: 80, customMaterial: { ...INITIAL_PARAMS.customMaterial } });
+  });
+
+  it('falls back to the default material for unknown ids', () => {
+    expect(migrateParams({ materialId: 'bone china' }, PROJECT_SCHEMA_VERSION).materialId).toBe(DEFAULT_MATERIAL.id);
+  });
+
+  it('rejects params that are not an object or come from a newer version', () => {
+    expect(() => migrateParams(null)).toThrow('must be an object');
+    expect(() => migrateParams([1, 2])).toThrow('must be an object');
+    expect(() => migrateParams({}, PROJECT_SCHEMA_VERSION + 1)).toThrow('newer version');
+  });
+});
+
+describe('parseProject', () => {
+  it('round-trips a saved project', () => {
+    const params = { ...INITIAL_PARAMS, height: 90, wallThickness: 3 };
+    const project = parseProject(serializeProject({
+      params,
+      generatedScript: { code: 'G1 X0', explanation: 'test' },
+      printerProfile: null,
+    }));
+
+    expect(project.params).toEqual(params);
+    expect(project.generatedScript).toEqual({ code: 'G1 X0', explanation: 'test' });
+    expect(project.printerProfile).toBeNull();
+  });
+
+  it('carries a user printer profile but not a built-in one', () => {
+    const studio = duplicatePrinterProfile(DEFAULT_PRINTER_PROFILE, 'Studio');
+    const params = { ...INITIAL_PARAMS, printerProfileId: studio.id };
+
+    const withUser = parseProject(serializeProject({ params, generatedScript: null, printerProfile: studio }));
+    expect(withUser.printerProfile).toEqual(studio);
+    expect(withUser.params.printerProfileId).toBe(studio.id);
+
+    const withBuiltIn = parseProject(serializeProject({ params: INITIAL_PARAMS, generatedScript: null, printerProfile: DEFAULT_PRINTER_PROFILE }));
+    expect(withBuiltIn.printerProfile).toBeNull();
+  });
+
+  it('migrates and clamps the params it reads', () => {
+    const project = parseProject(JSON.stringify({ app: 'CeramicFlow', schemaVersion: 1, params: { ...VERSION_1, layers: -5 } }));
+    expect(project.params.modifiers).toHaveLength(3);
+    expect(project.params.layers).toBeGreaterThan(0);
+  });
+
+  it('rejects files that are not projects', () => {
+    expect(() => parseProject('{')).toThrow('not valid JSON');
+    expect(() => parseProject('null')).toThrow('Not a CeramicFlow project file');
+    expect(() => parseProject(JSON.stringify({ app: 'Other', params: {} }))).toThrow('Not a CeramicFlow project file');
+  });
+});
+
+describe('mergeProjectProfile', () => {
+  const studio = duplicatePrinterProfile(DEFAULT_PRINTER_PROFILE, 'Studio');
+  const project = { params: { ...INITIAL_PARAMS, printerProfileId: studio.id }, generatedScript: null, printerProfile: studio };
+
+  it('adds a profile the user does not have', () => {
+    const merged = mergeProjectProfile([DEFAULT_PRINTER_PROFILE], project);
+    expect(merged.profiles).toEqual([DEFAULT_PRINTER_PROFILE, studio]);
+    expect(merged.params.printerProfileId).toBe(studio.id);
+  });
+
+  it('reuses a local profile with the same id and settings', () => {
+    const local = { ...studio, name: 'Renamed' };
+    const merged = mergeProjectProfile([local], project);
+    expect(merged.profiles).toEqual([local]);
+    expect(merged.params.printerProfileId).toBe(studio.id);
+  });
+
+  it('points at a local profile with matching settings when the id clashes', () => {
+    const clash = { ...studio, maxPrintSpeed: studio.maxPrintSpeed + 100 };
+    const match = { ...studio, id: 'local-match' };
+    const merged = mergeProjectProfile([clash, match], project);
+    expect(merged.profiles).toEqual([clash, match]);
+    expect(merged.params.printerProfileId).toBe('local-match');
+  });
+
+  it('adds a copy under a new id when nothing matches', () => {
+    const clash = { ...studio, maxPrintSpeed: studio.maxPrintSpeed + 100 };
+    const merged = mergeProjectProfile([clash], project);
+    const copy = merged.profiles[1];
+    expect(merged.profiles).toHaveLength(2);
+    expect(copy.id).not.toBe(studio.id);
+    expect(copy.maxPrintSpeed).toBe(studio.maxPrintSpeed);
+    expect(merged.params.printerProfileId).toBe(copy.id);
+  });
+});
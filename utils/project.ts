@@ -0,0 +1,185 @@
+import { VesselParams, GeneratedScript, PrinterProfile } from '../types';
+import { INITIAL_PARAMS } from './defaults';
+import { createModifier } from './modifiers';
+import { PROFILE_PRESETS } from './profile';
+import { CLAY_MATERIALS, DEFAULT_MATERIAL, CUSTOM_MATERIAL_ID } from './materials';
+import { parsePrinterProfiles, serializePrinterProfiles, duplicatePrinterProfile } from './printerProfiles';
+import { clampParams } from './paramLimits';
+
+export const PROJECT_EXTENSION = '.ceramicflow.json';
+
+/**
+ * Version of the saved VesselParams shape. Bump it whenever a field is renamed
+ * or changes meaning, and add the step that upgrades the previous version to
+ * MIGRATIONS. Fields that are only added need no step: they are filled from
+ * INITIAL_PARAMS when a file is opened.
+ */
+export const PROJECT_SCHEMA_VERSION = 3;
+
+const AUTOSAVE_KEY = 'ceramicflow.autosave';
+
+/** Everything needed to reopen a design. */
+export interface Project {
+  params: VesselParams; // Includes the texture image and the printer and material selections
+  generatedScript: GeneratedScript | null;
+  printerProfile: PrinterProfile | null; // The selected user profile, so the file opens on other machines
+}
+
+type RawParams = Record<string, unknown>;
+
+// Each step upgrades params saved by schema version `from` to `from + 1`
+const MIGRATIONS: { from: number; migrate: (params: RawParams) => RawParams }[] = [
+  {
+    // Fixed noise / twist / image pipeline and printer type -> modifier stack,
+    // silhouette profile and printer profiles. The old vessel was a cylinder.
+    from: 1,
+    migrate: ({ noiseScale, noiseFrequency, twist, textureInfluence, printerType, ...rest }) => ({
+      profile: PROFILE_PRESETS.cylinder.map(p => ({ ...p })),
+      ...rest,
+      printerProfileId: printerType ?? INITIAL_PARAMS.printerProfileId,
+      modifiers: [
+        { ...createModifier('texture'), depth: textureInfluence ?? 0 },
+        { ...createModifier('twist'), amount: twist ?? 0 },
+        { ...createModifier('ripple'), amplitude: noiseScale ?? 0, frequency: noiseFrequency ?? 0 },
+      ],
+    }),
+  },
+  {
+    // Clay strength and overhang limit -> clay body material
+    from: 2,
+    migrate: ({ clayYieldStress, clayStiffeningRate, maxOverhangAngle, ...rest }) => {
+      const overrides = {
+        yieldStress: clayYieldStress ?? DEFAULT_MATERIAL.yieldStress,
+        stiffeningRate: clayStiffeningRate ?? DEFAULT_MATERIAL.stiffeningRate,
+        maxOverhangAngle: maxOverhangAngle ?? DEFAULT_MATERIAL.maxOverhangAngle,
+      };
+      const isDefault = (Object.keys(overrides) as (keyof typeof overrides)[])
+        .every(key => overrides[key] === DEFAULT_MATERIAL[key]);
+      if (isDefault) return { ...rest, materialId: DEFAULT_MATERIAL.id };
+      return {
+        ...rest,
+        materialId: CUSTOM_MATERIAL_ID,
+        customMaterial: { ...DEFAULT_MATERIAL, ...overrides, id: CUSTOM_MATERIAL_ID, name: `${DEFAULT_MATERIAL.name} (custom)` },
+      };
+    },
+  },
+];
+
+/** Schema version of params stored without one (designs embedded in 3MF files). */
+const detectVersion = (params: RawParams) => {
+  if ('noiseScale' in params || 'printerType' in params) return 1;
+  if (!('materialId' in params)) return 2;
+  return PROJECT_SCHEMA_VERSION;
+};
+
+/**
+ * Upgrades params saved by any schema version to the current VesselParams.
+ * Fields the file does not have take their INITIAL_PARAMS value.
+ */
+export const migrateParams = (raw: unknown, version?: number): VesselParams => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Design parameters must be an object');
+  let params = raw as RawParams;
+  let from = version ?? detectVersion(params);
+  if (from > PROJECT_SCHEMA_VERSION) {
+    throw new Error('This design was saved by a newer version of CeramicFlow');
+  }
+  for (const step of MIGRATIONS) {
+    if (step.from === from) {
+      params = step.migrate(params);
+      from++;
+    }
+  }
+
+  const migrated = { ...INITIAL_PARAMS, ...params } as VesselParams;
+  // Materials gain fields too; presets are looked up by id, so only the custom one is stored
+  migrated.customMaterial = { ...INITIAL_PARAMS.customMaterial, ...migrated.customMaterial, id: CUSTOM_MATERIAL_ID };
+  if (migrated.materialId !== CUSTOM_MATERIAL_ID && !CLAY_MATERIALS.some(m => m.id === migrated.materialId)) {
+    migrated.materialId = DEFAULT_MATERIAL.id;
+  }
+  return migrated;
+};
+
+export const serializeProject = (project: Project): string =>
+  JSON.stringify({
+    app: 'CeramicFlow',
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    params: project.params,
+    generatedScript: project.generatedScript,
+    printerProfile: project.printerProfile && !project.printerProfile.builtIn
+      ? JSON.parse(serializePrinterProfiles([project.printerProfile]))[0]
+      : null,
+  }, null, 2);
+
+/**
+ * Reads a .ceramicflow.json file, migrating it from the version that saved it
+ * and clamping its values to the editor's ranges.
+ */
+export const parseProject = (json: string): Project => {
+  let data: RawParams;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  if (!data || typeof data !== 'object' || data.app !== 'CeramicFlow') {
+    throw new Error('Not a CeramicFlow project file');
+  }
+  const version = typeof data.schemaVersion === 'number' ? data.schemaVersion : undefined;
+  const script = data.generatedScript as GeneratedScript | null | undefined;
+  const printerProfile = data.printerProfile ? parsePrinterProfiles(JSON.stringify(data.printerProfile))[0] : null;
+  const params = clampParams(migrateParams(data.params, version));
+  // Clashes with the user's own profiles are settled by mergeProjectProfile
+  if (printerProfile) params.printerProfileId = printerProfile.id;
+
+  return {
+    params,
+    generatedScript: script && typeof script.code === 'string' ? script : null,
+    printerProfile,
+  };
+};
+
+// Everything that changes the G-code; names are only labels
+const sameSettings = (a: PrinterProfile, b: PrinterProfile) =>
+  (Object.keys(a) as (keyof PrinterProfile)[]).every(key => ['id', 'name', 'builtIn'].includes(key) || a[key] === b[key]);
+
+/**
+ * Adds the printer profile that came with a project to the user's profiles.
+ * A local profile with the same id is reused only if its settings match;
+ * otherwise the design points at a local profile with those settings, adding
+ * the project's one under a new id if there is none, so it prints the way it
+ * was saved.
+ */
+export const mergeProjectProfile = (
+  profiles: PrinterProfile[],
+  project: Project
+): { profiles: PrinterProfile[]; params: VesselParams } => {
+  const { printerProfile, params } = project;
+  if (!printerProfile) return { profiles, params };
+  const local = profiles.find(p => p.id === printerProfile.id);
+  if (!local) return { profiles: [...profiles, printerProfile], params };
+  if (sameSettings(local, printerProfile)) return { profiles, params };
+  const match = profiles.find(p => !p.builtIn && sameSettings(p, printerProfile));
+  if (match) return { profiles, params: { ...params, printerProfileId: match.id } };
+  const copy = duplicatePrinterProfile(printerProfile, `${printerProfile.name} (from project)`);
+  return { profiles: [...profiles, copy], params: { ...params, printerProfileId: copy.id } };
+};
+
+export const loadAutosave = (): Project | null => {
+  try {
+    const stored = localStorage.getItem(AUTOSAVE_KEY);
+    return stored ? parseProject(stored) : null;
+  } catch (err) {
+    console.error('Failed to restore autosaved project', err);
+    return null;
+  }
+};
+
+export const saveAutosave = (project: Project) => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, serializeProject(project));
+  } catch (err) {
+    // Usually the storage quota, with a large texture image
+    console.error('Failed to autosave project', err);
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_PARAMS } from './defaults';
+import { PARAM_LIMITS } from './paramLimits';
+import { createShareLink, readShareLink } from './shareLink';
+
+const BASE = 'https://ceramicflow.example/editor';
+
+// A link carrying arbitrary JSON, the way a hand-edited link could
+const linkFor = async (payload: unknown) => {
+  const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return `#design=${Buffer.from(bytes).toString('base64url')}`;
+};
+
+describe('share links', () => {
+  it('round-trips a design without its texture image', async () => {
+    const params = { ...INITIAL_PARAMS, height: 140, textureImage: 'data:image/png;base64,AAAA' };
+    const link = await createShareLink(params, `${BASE}#old`);
+
+    expect(link.startsWith(`${BASE}#design=`)).toBe(true);
+    expect(await readShareLink(new URL(link).hash)).toEqual({ ...params, textureImage: null });
+  });
+
+  it('returns null when the fragment has no design', async () => {
+    expect(await readShareLink('')).toBeNull();
+    expect(await readShareLink('#section=2')).toBeNull();
+  });
+
+  it('clamps the values in a link', async () => {
+    const params = await readShareLink(await linkFor({ v: 3, p: { height: 9999 } }));
+    expect(params?.height).toBe(PARAM_LIMITS.height.max);
+  });
+
+  it('rejects damaged links', async () => {
+    const error = 'This design link is damaged or incomplete';
+    await expect(readShareLink('#design=AAAA')).rejects.toThrow(error);
+    await expect(readShareLink(await linkFor(null))).rejects.toThrow(error);
+    await expect(readShareLink(await linkFor(42))).rejects.toThrow(error);
+  });
+});
@@ -0,0 +1,70 @@
+import { VesselParams } from '../types';
+import { PROJECT_SCHEMA_VERSION, migrateParams } from './project';
+import { clampParams } from './paramLimits';
+import { resizeDataUrl } from './imageHelper';
+
+// The design travels in the fragment (#design=...), which browsers never send to a server
+const FRAGMENT_PATTERN = /[#&]design=([A-Za-z0-9_-]+)/;
+
+// A texture image shared in a link is shrunk to this width first
+const SHARED_IMAGE_WIDTH = 256;
+const SHARED_IMAGE_QUALITY = 0.7;
+
+const pipeThrough = async (data: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Link to `baseUrl` that opens the design: the params as deflated JSON in
+ * base64url. The texture image is left out unless `includeImage` is set, and
+ * then shrunk so the link stays usable.
+ */
+export const createShareLink = async (
+  params: VesselParams,
+  baseUrl: string,
+  includeImage = false
+): Promise<string> => {
+  const textureImage = includeImage && params.textureImage
+    ? await resizeDataUrl(params.textureImage, SHARED_IMAGE_WIDTH, SHARED_IMAGE_QUALITY)
+    : null;
+  const json = JSON.stringify({ v: PROJECT_SCHEMA_VERSION, p: { ...params, textureImage } });
+  const deflated = await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${baseUrl.split('#')[0]}#design=${toBase64Url(deflated)}`;
+};
+
+/**
+ * The design in a URL fragment, or null when there is none. Values are
+ * migrated and clamped to the editor's ranges, since links get edited and
+ * truncated by hand and mail clients.
+ */
+export const readShareLink = async (hash: string): Promise<VesselParams | null> => {
+  const match = hash.match(FRAGMENT_PATTERN);
+  if (!match) return null;
+
+  let data: { v?: unknown; p?: unknown };
+  try {
+    const json = await pipeThrough(fromBase64Url(match[1]), new DecompressionStream('deflate-raw'));
+    const parsed: unknown = JSON.parse(new TextDecoder().decode(json));
+    if (typeof parsed !== 'object' || parsed === null) throw new Error('Not a design');
+    data = parsed;
+  } catch {
+    throw new Error('This design link is damaged or incomplete');
+  }
+  return clampParams(migrateParams(data.p, typeof data.v === 'number' ? data.v : undefined));
+};
@@ -0,0 +1,75 @@
+import { VesselParams, SurfaceModifier } from '../types';
+import { resolveMaterial } from './materials';
+
+export type PieceSize = 'green' | 'fired';
+
+/**
+ * Green (as printed) size over fired size, across and along the wall's axis.
+ * Printed clay shrinks more in height than across: the layers settle as the
+ * water leaves, so vertical shrinkage is the linear shrinkage times the
+ * material's verticalShrinkageRatio.
+ */
+export const shrinkageFactors = (params: VesselParams) => {
+  const material = resolveMaterial(params);
+  const dry = material.dryingShrinkage / 100;
+  const fire = material.firingShrinkage / 100;
+  const ratio = material.verticalShrinkageRatio;
+  return {
+    horizontal: 1 / ((1 - dry) * (1 - fire)),
+    vertical: 1 / ((1 - Math.min(0.9, dry * ratio)) * (1 - Math.min(0.9, fire * ratio))),
+  };
+};
+
+// Lengths are radial (or a feature size around the wall) and scale with the
+// radius. Patterns laid out up the wall are stretched by the rest of the
+// height change, so they stay where they were designed on the piece: the
+// ripple's wave length by `vertical`, noise (whose size already grew by
+// `horizontal`) by the ratio of the two.
+const scaleModifier = (mod: SurfaceModifier, horizontal: number, vertical: number): SurfaceModifier => {
+  switch (mod.type) {
+    case 'noise': return {
+      ...mod,
+      amplitude: mod.amplitude * horizontal,
+      scale: mod.scale * horizontal,
+      verticalStretch: (mod.verticalStretch * vertical) / horizontal,
+    };
+    case 'ripple': return { ...mod, amplitude: mod.amplitude * horizontal, verticalStretch: mod.verticalStretch * vertical };
+    case 'texture': return { ...mod, depth: mod.depth * horizontal };
+    case 'ridges': return { ...mod, depth: mod.depth * horizontal };
+    case 'bulge': return { ...mod, amount: mod.amount * horizontal };
+    case 'twist':
+    case 'facets':
+      return mod;
+  }
+};
+
+/** The vessel scaled about its foot: `horizontal` for radii and wall, `vertical` for height. */
+export const scaleVessel = (params: VesselParams, horizontal: number, vertical: number): VesselParams => ({
+  ...params,
+  height: params.height * vertical,
+  baseRadius: params.baseRadius * horizontal,
+  wallThickness: params.wallThickness * horizontal,
+  modifiers: params.modifiers.map(mod => scaleModifier(mod, horizontal, vertical)),
+});
+
+/**
+ * The piece as it is printed. In "design for fired size" mode the entered
+ * dimensions are the fired ones and get scaled up to make up for shrinkage;
+ * otherwise params already describe the green piece. The result is marked as
+ * green-sized, so converting it again is a no-op.
+ */
+export const greenParams = (params: VesselParams): VesselParams => {
+  if (!params.designForFiredSize) return params;
+  const { horizontal, vertical } = shrinkageFactors(params);
+  return { ...scaleVessel(params, horizontal, vertical), designForFiredSize: false };
+};
+
+/** The piece after drying and firing, marked as fired-sized. */
+export const firedParams = (params: VesselParams): VesselParams => {
+  if (params.designForFiredSize) return params;
+  const { horizontal, vertical } = shrinkageFactors(params);
+  return { ...scaleVessel(params, 1 / horizontal, 1 / vertical), designForFiredSize: true };
+};
+
+export const paramsAtSize = (params: VesselParams, size: PieceSize) =>
+  size === 'green' ? greenParams(params) : firedParams(params);
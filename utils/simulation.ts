@@ -0,0 +1,71 @@
+import { Toolpath, ToolpathMove, PrinterProfile } from '../types';
+import { estimatePrintTime } from './printTime';
+
+export interface ToolpathTimeline {
+  startTimes: Float64Array; // Seconds at which each move starts
+  total: number; // Seconds for the whole toolpath
+}
+
+export interface ToolpathSample {
+  index: number; // Move being executed (clamped to the last move)
+  fraction: number; // 0-1 along that move
+  x: number;
+  y: number;
+  z: number;
+  e: number;
+  line: number; // Source G-code line of the move
+}
+
+const startOf = (toolpath: Toolpath, index: number) =>
+  index === 0 ? { ...toolpath.origin, e: 0 } : toolpath.moves[index - 1];
+
+export const moveLength = (from: { x: number; y: number; z: number }, to: ToolpathMove) =>
+  Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+
+/** Start time of every move, using the printer's motion planning. */
+export const createTimeline = (toolpath: Toolpath, printer: PrinterProfile): ToolpathTimeline => {
+  const { moveTimes, total } = estimatePrintTime(toolpath, printer);
+  const startTimes = new Float64Array(moveTimes.length);
+  let time = 0;
+  moveTimes.forEach((duration, i) => {
+    startTimes[i] = time;
+    time += duration;
+  });
+  return { startTimes, total };
+};
+
+/** Nozzle state at `time` seconds into the print. */
+export const sampleToolpath = (toolpath: Toolpath, timeline: ToolpathTimeline, time: number): ToolpathSample => {
+  const { moves } = toolpath;
+  const { startTimes, total } = timeline;
+  if (moves.length === 0) {
+    return { index: 0, fraction: 1, ...toolpath.origin, e: 0, line: 0 };
+  }
+
+  // Last move starting at or before `time`
+  let lo = 0;
+  let hi = moves.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (startTimes[mid] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+
+  const move = moves[lo];
+  const from = startOf(toolpath, lo);
+  const end = lo + 1 < moves.length ? startTimes[lo + 1] : total;
+  const duration = end - startTimes[lo];
+  const fraction = duration > 0 ? Math.min(1, Math.max(0, (time - startTimes[lo]) / duration)) : 1;
+  // E at the start of a move is the previous move's E; origin starts at 0
+  const e0 = lo === 0 ? 0 : moves[lo - 1].e;
+
+  return {
+    index: lo,
+    fraction,
+    x: from.x + (move.x - from.x) * fraction,
+    y: from.y + (move.y - from.y) * fraction,
+    z: from.z + (move.z - from.z) * fraction,
+    e: e0 + (move.e - e0) * fraction,
+    line: move.line,
+  };
+};
@@ -0,0 +1,121 @@
+import { VesselParams, TextureData } from '../types';
+import { calculateVesselPoint, getPerimeterLayout } from './geometry';
+import { resolveMaterial, materialDensity } from './materials';
+
+const GRAVITY = 9.81; // m/s²
+// Angles sampled per layer when measuring its mean radius
+const RADIUS_SAMPLES = 16;
+// Green clay stiffness relative to its yield stress (order of magnitude for stiff pastes)
+const MODULUS_RATIO = 500;
+// Classical axial shell buckling stress, 0.605·E·t/R, knocked down for the
+// imperfections of a hand-built or printed wall
+const SHELL_BUCKLING_COEFFICIENT = 0.605;
+const IMPERFECTION_KNOCKDOWN = 0.2;
+
+export type FailureMode = 'collapse' | 'buckling';
+
+export interface StabilityResult {
+  // Highest utilisation (load / capacity) each layer reaches during the print; 1 = failure
+  layerRisk: number[];
+  failureLayer: number | null; // 0-based layer being printed when something first fails
+  failureHeight: number | null; // mm
+  failureMode: FailureMode | null;
+}
+
+/** Width of the printed wall: the perimeters in layered mode, a single bead in spiral mode. */
+export const getWallWidth = (params: VesselParams) => {
+  if (params.gcodeMode === 'spiral') return params.nozzleDiameter;
+  const { count, width } = getPerimeterLayout(params);
+  return count * width;
+};
+
+/**
+ * Green-strength check of the wall while it is being printed.
+ *
+ * Every time layer j is laid, each layer i below carries the clay above it.
+ * Layer i has been stiffening for the time since it was printed, so its yield
+ * stress is yieldStress + stiffeningRate·t of the selected clay body. Two limits are checked:
+ *  - plastic collapse: stress along the wall (steeper for walls leaning in or
+ *    out) against the compressive yield stress √3·τ
+ *  - buckling: the same stress against the axial buckling stress of a
+ *    cylindrical shell of the layer's radius and wall width
+ */
+export const analyzeStability = (
+  params: VesselParams,
+  textureData: TextureData | null,
+  layerTimes: number[]
+): StabilityResult => {
+  const { layers, height } = params;
+  const material = resolveMaterial(params);
+  const layerHeight = height / layers;
+  const wall = getWallWidth(params) / 1000; // m
+  const density = materialDensity(material) * 1e6; // g/mm³ -> kg/m³
+  const stiffening = material.stiffeningRate / 60; // Pa/min -> Pa/s
+
+  // Mean radius of each layer (m)
+  const radii: number[] = [];
+  for (let i = 0; i < layers; i++) {
+    const v = (i + 0.5) / layers;
+    let sum = 0;
+    for (let s = 0; s < RADIUS_SAMPLES; s++) {
+      sum += calculateVesselPoint(params, s / RADIUS_SAMPLES, v, 0, 0, 1, textureData).r;
+    }
+    radii.push(sum / RADIUS_SAMPLES / 1000);
+  }
+
+  // Time at which each layer is finished (s)
+  const finished: number[] = [];
+  let clock = 0;
+  for (let i = 0; i < layers; i++) {
+    clock += layerTimes[i] ?? 0;
+    finished.push(clock);
+  }
+
+  // Mass of each layer's wall ring (kg)
+  const ringMass = radii.map(r => density * 2 * Math.PI * r * wall * (layerHeight / 1000));
+
+  // A leaning wall carries the load along its slope: 1 / cos(lean)
+  const slopeFactor = radii.map((_, i) => {
+    const below = radii[Math.max(0, i - 1)];
+    const above = radii[Math.min(layers - 1, i + 1)];
+    const steps = Math.min(layers - 1, i + 1) - Math.max(0, i - 1);
+    const drdz = steps > 0 ? (above - below) / (steps * layerHeight / 1000) : 0;
+    return Math.sqrt(1 + drdz * drdz);
+  });
+
+  const layerRisk = new Array<number>(layers).fill(0);
+  let failureLayer: number | null = null;
+  let failureMode: FailureMode | null = null;
+
+  for (let i = 0; i < layers; i++) {
+    const radius = radii[i];
+    const area = 2 * Math.PI * radius * wall; // Load-bearing ring section (m²)
+    let massAbove = 0;
+
+    for (let j = i + 1; j < layers; j++) {
+      massAbove += ringMass[j];
+      const stress = ((massAbove * GRAVITY) / area) * slopeFactor[i];
+
+      // Layer i has been stiffening since it was finished
+      const age = Math.max(0, finished[j] - finished[i]);
+      const yieldStress = material.yieldStress + stiffening * age;
+      const collapse = stress / (Math.sqrt(3) * yieldStress);
+      const modulus = MODULUS_RATIO * yieldStress;
+      const buckling = stress / (IMPERFECTION_KNOCKDOWN * SHELL_BUCKLING_COEFFICIENT * modulus * wall / radius);
+
+      const risk = Math.max(collapse, buckling);
+      if (risk > layerRisk[i]) layerRisk[i] = risk;
+      if (risk >= 1 && (failureLayer === null || j < failureLayer)) {
+        failureLayer = j;
+        failureMode = collapse >= buckling ? 'collapse' : 'buckling';
+      }
+    }
+  }
+
+  return {
+    layerRisk,
+    failureLayer,
+    failureHeight: failureLayer === null ? null : (failureLayer + 1) * layerHeight,
+    failureMode,
+  };
+};
@@ -0,0 +1,135 @@
+import { VesselParams, TextureData } from '../types';
+import { calculateVesselPoint } from './geometry';
+import { crc32 } from './zip';
+
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Points around each ring when measuring the silhouette
+const RING_SAMPLES = 64;
+const CLAY_RGB = [210, 186, 176]; // #d2bab0
+// Light comes from the front left
+const LIGHT_OFFSET = -0.35;
+
+/**
+ * Shaded front view of the vessel, drawn without WebGL so it works in the
+ * geometry worker: every row is the ring's silhouette at that height, lit as
+ * a cylinder. The background is transparent.
+ */
+export const renderThumbnail = (params: VesselParams, textureData: TextureData | null, size = 256): RGBAImage => {
+  const data = new Uint8ClampedArray(size * size * 4);
+  const margin = size * 0.08;
+  const rows = Math.max(2, Math.round(size - margin * 2));
+
+  // Silhouette (min/max x seen from the front) of each drawn row, bottom first
+  const spans: [number, number][] = [];
+  let extent = 1;
+  for (let row = 0; row < rows; row++) {
+    const v = row / (rows - 1);
+    let minX = Infinity;
+    let maxX = -Infinity;
+    for (let s = 0; s < RING_SAMPLES; s++) {
+      const p = calculateVesselPoint(params, s / RING_SAMPLES, v, 0, 0, 1, textureData);
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+    }
+    spans.push([minX, maxX]);
+    extent = Math.max(extent, Math.abs(minX), Math.abs(maxX));
+  }
+
+  // Fit the taller of height and width into the square
+  const scale = (size - margin * 2) / Math.max(params.height, extent * 2);
+  const drawnHeight = params.height * scale;
+  const top = (size - drawnHeight) / 2;
+
+  for (let y = 0; y < size; y++) {
+    const v = 1 - (y - top) / drawnHeight;
+    if (v < 0 || v > 1) continue;
+    const [minX, maxX] = spans[Math.round(v * (rows - 1))];
+    const center = (minX + maxX) / 2;
+    const half = (maxX - minX) / 2 || 1;
+    for (let x = 0; x < size; x++) {
+      const mx = (x - size / 2) / scale;
+      if (mx < minX || mx > maxX) continue;
+      const t = (mx - center) / half;
+      const facing = Math.sqrt(Math.max(0, 1 - t * t));
+      const light = 0.45 + 0.55 * Math.max(0, (facing + LIGHT_OFFSET * t) / Math.hypot(1, LIGHT_OFFSET));
+      const i = (y * size + x) * 4;
+      data[i] = CLAY_RGB[0] * light;
+      data[i + 1] = CLAY_RGB[1] * light;
+      data[i + 2] = CLAY_RGB[2] * light;
+      data[i + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, data };
+};
+
+const pngChunk = (type: string, body: Uint8Array) => {
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32([chunk.subarray(4, 8 + body.length)]));
+  return chunk;
+};
+
+/**
+ * Encodes RGBA pixels as a PNG. The image data goes into stored (uncompressed)
+ * deflate blocks, which every decoder accepts and needs no compressor.
+ */
+export const encodePNG = (image: RGBAImage): Uint8Array => {
+  const { width, height, data } = image;
+  const stride = width * 4 + 1;
+
+  // Scanlines, each prefixed with filter type 0
+  const raw = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * width * 4, (y + 1) * width * 4), y * stride + 1);
+  }
+
+  // zlib stream: header, stored blocks of at most 65535 bytes, Adler-32
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  const zview = new DataView(zlib.buffer);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let pos = 2;
+  for (let b = 0; b < blockCount; b++) {
+    const start = b * 65535;
+    const length = Math.min(65535, raw.length - start);
+    zlib[pos] = b === blockCount - 1 ? 1 : 0;
+    zview.setUint16(pos + 1, length, true);
+    zview.setUint16(pos + 3, ~length & 0xffff, true);
+    zlib.set(raw.subarray(start, start + length), pos + 5);
+    pos += 5 + length;
+  }
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < raw.length; i++) {
+    a = (a + raw[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  zview.setUint32(pos, ((b << 16) | a) >>> 0);
+
+  const header = new Uint8Array(13);
+  const hview = new DataView(header.buffer);
+  hview.setUint32(0, width);
+  hview.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+
+  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+  const parts = [signature, pngChunk('IHDR', header), pngChunk('IDAT', zlib), pngChunk('IEND', new Uint8Array(0))];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip, textChunks } from './zip';
+
+const text = (bytes: Uint8Array | undefined) => new TextDecoder().decode(bytes);
+
+const deflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(textChunks(['123456789']))).toBe(0xcbf43926);
+  });
+
+  it('gives the same result however the data is chunked', () => {
+    expect(crc32(textChunks(['1234', '56789']))).toBe(crc32(textChunks(['123456789'])));
+  });
+});
+
+describe('createZip / readZip', () => {
+  it('round-trips text and binary entries', async () => {
+    const binary = new Uint8Array(1000).map((_, i) => (i * 37) & 0xff);
+    const archive = createZip([
+      { name: 'vessel.obj', data: textChunks(['o vessel\n', 'v 0 0 0\n']) },
+      { name: '3D/model.xml', data: textChunks(['<model/>']) },
+      { name: 'texture.png', data: [binary.subarray(0, 400), binary.subarray(400)] },
+    ]);
+
+    const files = await readZip(archive);
+    expect([...files.keys()]).toEqual(['vessel.obj', '3D/model.xml', 'texture.png']);
+    expect(text(files.get('vessel.obj'))).toBe('o vessel\nv 0 0 0\n');
+    expect(text(files.get('3D/model.xml'))).toBe('<model/>');
+    expect(files.get('texture.png')).toEqual(binary);
+  });
+
+  it('keeps UTF-8 names and empty entries', async () => {
+    const files = await readZip(createZip([{ name: 'vase – fired.txt', data: [] }]));
+    expect(files.get('vase – fired.txt')).toHaveLength(0);
+  });
+
+  it('reads an empty archive', async () => {
+    expect((await readZip(createZip([]))).size).toBe(0);
+  });
+
+  it('inflates deflated entries', async () => {
+    const content = 'clay '.repeat(200);
+    const deflated = await deflateRaw(new TextEncoder().encode(content));
+    const archive = new Uint8Array(createZip([{ name: 'a.txt', data: [deflated] }]));
+    // Mark the entry as deflated in the local and central headers
+    const view = new DataView(archive.buffer);
+    const central = view.getUint32(archive.length - 6, true);
+    view.setUint16(8, 8, true);
+    view.setUint16(central + 10, 8, true);
+
+    const files = await readZip(archive.buffer);
+    expect(text(files.get('a.txt'))).toBe(content);
+  });
+
+  it('rejects data that is not a zip', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip at all, just text').buffer)).rejects.toThrow('Not a zip archive');
+  });
+});